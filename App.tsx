@@ -1,55 +1,164 @@
-
-import React, { useState, useCallback } from 'react';
-import { Game, BadgeType } from './types';
+import React, { useState, useCallback, useEffect } from 'react';
+import { Game, GameEvent, PlayerProfile, SaveState, ContentLibrary, CustomLuckyBox, PityRule, BridgeSettings } from './types';
 import Header from './components/Header';
 import Dashboard from './components/Dashboard';
+import ProfilePicker from './components/ProfilePicker';
+import StatisticsPage from './components/StatisticsPage';
+import ContentPackManager from './components/ContentPackManager';
 import LuckyBoxShop from './components/games/LuckyBoxShop';
 import FindTheThief from './components/games/FindTheThief';
 import SurvivalBridge from './components/games/SurvivalBridge';
 import GoalOrMiss from './components/games/GoalOrMiss';
 import AiCoach from './components/games/AiCoach';
+import { loadSave, writeSave, createProfile, loadContentLibrary, writeContentLibrary, loadCustomBoxes, writeCustomBoxes, loadPityRule, writePityRule, loadBridgeSettings, writeBridgeSettings } from './utils/storage';
+import { getBridgeTable } from './utils/bridge';
+import { getActivePack } from './utils/contentPacks';
+import { subscribeToGameEvents, applyGameEvent } from './utils/gameEvents';
+import { setMuted } from './utils/sounds';
+import { useRoute, navigate, Page } from './utils/router';
 
 const App: React.FC = () => {
-  const [currentPage, setCurrentPage] = useState<Game | 'dashboard'>('dashboard');
-  const [points, setPoints] = useState<number>(1000);
-  const [badges, setBadges] = useState<BadgeType[]>([]);
+  const { page: currentPage } = useRoute();
+  const [save, setSave] = useState<SaveState>(loadSave);
+  const [contentLibrary, setContentLibrary] = useState<ContentLibrary>(loadContentLibrary);
+  const [customBoxes, setCustomBoxes] = useState<CustomLuckyBox[]>(loadCustomBoxes);
+  const [pityRule, setPityRule] = useState<PityRule>(loadPityRule);
+  const [bridgeSettings, setBridgeSettings] = useState<BridgeSettings>(loadBridgeSettings);
+  const [saveFailed, setSaveFailed] = useState(false);
 
-  const earnBadge = useCallback((newBadge: BadgeType) => {
-    if (!badges.includes(newBadge)) {
-      setBadges(prev => [...prev, newBadge]);
-    }
-  }, [badges]);
+  const activeProfile = save.profiles.find(p => p.id === save.activeProfileId) ?? null;
+  const content = getActivePack(contentLibrary);
+  const bridge = getBridgeTable(bridgeSettings, content.survivalBridge);
+
+  useEffect(() => {
+    setSaveFailed(!writeSave(save));
+  }, [save]);
+
+  useEffect(() => {
+    writeContentLibrary(contentLibrary);
+  }, [contentLibrary]);
+
+  useEffect(() => {
+    writeCustomBoxes(customBoxes);
+  }, [customBoxes]);
+
+  useEffect(() => {
+    writePityRule(pityRule);
+  }, [pityRule]);
+
+  useEffect(() => {
+    writeBridgeSettings(bridgeSettings);
+  }, [bridgeSettings]);
+
+  useEffect(() => {
+    setMuted(activeProfile?.isMuted ?? false);
+  }, [activeProfile?.isMuted]);
+
+  const updateActiveProfile = useCallback((update: (profile: PlayerProfile) => PlayerProfile) => {
+    setSave(prev => ({
+      ...prev,
+      profiles: prev.profiles.map(p => p.id === prev.activeProfileId ? update(p) : p),
+    }));
+  }, []);
+
+  useEffect(() => subscribeToGameEvents((event: GameEvent) => {
+    updateActiveProfile(prev => applyGameEvent(prev, event));
+  }), [updateActiveProfile]);
+
+  const toggleMute = useCallback(() => {
+    updateActiveProfile(prev => ({ ...prev, isMuted: !prev.isMuted }));
+  }, [updateActiveProfile]);
+
+  const selectProfile = useCallback((profileId: string | null) => {
+    setSave(prev => ({ ...prev, activeProfileId: profileId }));
+  }, []);
+
+  const addProfile = useCallback((name: string, avatar: string) => {
+    const profile = createProfile(name, avatar);
+    setSave(prev => ({ activeProfileId: profile.id, profiles: [...prev.profiles, profile] }));
+  }, []);
+
+  const renameProfile = useCallback((profileId: string, name: string) => {
+    setSave(prev => ({
+      ...prev,
+      profiles: prev.profiles.map(p => p.id === profileId ? { ...p, name } : p),
+    }));
+  }, []);
+
+  const deleteProfile = useCallback((profileId: string) => {
+    setSave(prev => ({
+      activeProfileId: prev.activeProfileId === profileId ? null : prev.activeProfileId,
+      profiles: prev.profiles.filter(p => p.id !== profileId),
+    }));
+  }, []);
 
-  const updatePoints = useCallback((amount: number) => {
-    setPoints(prev => prev + amount);
+  const saveCustomBox = useCallback((box: CustomLuckyBox) => {
+    setCustomBoxes(prev => [...prev, box]);
   }, []);
 
-  const navigateTo = (page: Game | 'dashboard') => {
-    setCurrentPage(page);
+  const deleteCustomBox = useCallback((boxId: string) => {
+    setCustomBoxes(prev => prev.filter(b => b.id !== boxId));
+  }, []);
+
+  const navigateTo = (page: Page) => {
+    navigate({ page, learnMode: false });
+  };
+
+  const switchPlayer = () => {
+    selectProfile(null);
+    navigateTo('dashboard');
   };
 
   const renderPage = () => {
+    if (!activeProfile) {
+      return <ProfilePicker profiles={save.profiles} onSelect={selectProfile} onCreate={addProfile} onRename={renameProfile} onDelete={deleteProfile} />;
+    }
+
     switch (currentPage) {
       case Game.LuckyBox:
-        return <LuckyBoxShop goBack={() => navigateTo('dashboard')} currentPoints={points} updatePoints={updatePoints} earnBadge={earnBadge} />;
+        return (
+          <LuckyBoxShop
+            key={content.id}
+            goBack={() => navigateTo('dashboard')}
+            currentPoints={activeProfile.points}
+            boxes={content.luckyBoxes}
+            customBoxes={customBoxes}
+            inventory={activeProfile.inventory}
+            history={activeProfile.history}
+            pityRule={pityRule}
+            playerName={activeProfile.name}
+            onSaveCustomBox={saveCustomBox}
+            onDeleteCustomBox={deleteCustomBox}
+          />
+        );
       case Game.FindTheThief:
-        return <FindTheThief goBack={() => navigateTo('dashboard')} updatePoints={updatePoints} earnBadge={earnBadge} />;
+        return <FindTheThief key={content.id} goBack={() => navigateTo('dashboard')} currentPoints={activeProfile.points} cases={content.gameCases} history={activeProfile.history} />;
       case Game.SurvivalBridge:
-        return <SurvivalBridge goBack={() => navigateTo('dashboard')} updatePoints={updatePoints} earnBadge={earnBadge} />;
+        return <SurvivalBridge key={content.id} goBack={() => navigateTo('dashboard')} currentPoints={activeProfile.points} bridge={bridge} packName={content.name} packBridge={content.survivalBridge} settings={bridgeSettings} onSettingsChange={setBridgeSettings} />;
       case Game.GoalOrMiss:
-        return <GoalOrMiss goBack={() => navigateTo('dashboard')} updatePoints={updatePoints} earnBadge={earnBadge} />;
+        return <GoalOrMiss key={content.id} goBack={() => navigateTo('dashboard')} currentPoints={activeProfile.points} targets={content.goalTargets} profileId={activeProfile.id} history={activeProfile.history} />;
       case Game.AiCoach:
         return <AiCoach goBack={() => navigateTo('dashboard')} />;
+      case 'statistics':
+        return <StatisticsPage goBack={() => navigateTo('dashboard')} profile={activeProfile} content={content} customBoxes={customBoxes} bridge={bridge} />;
+      case 'content':
+        return <ContentPackManager goBack={() => navigateTo('dashboard')} library={contentLibrary} onChange={setContentLibrary} />;
       case 'dashboard':
       default:
-        return <Dashboard navigateTo={navigateTo} />;
+        return <Dashboard navigateTo={navigateTo} profile={activeProfile} content={content} pityRule={pityRule} onPityRuleChange={setPityRule} />;
     }
   };
 
   return (
     <div className="min-h-screen bg-gray-100 text-gray-800">
-      <Header points={points} badges={badges} />
+      <Header profile={activeProfile} onToggleMute={toggleMute} onSwitchPlayer={switchPlayer} />
       <main className="p-4 sm:p-6 lg:p-8">
+        {saveFailed && (
+          <div className="max-w-4xl mx-auto mb-4 p-4 bg-red-50 border-l-4 border-red-400 text-red-700" role="alert">
+            <p className="font-bold">Your progress isn't being saved.</p>
+            <p>This device's storage is full, so anything you do now will be lost when the page closes. Deleting players who no longer use this device frees up space.</p>
+          </div>
+        )}
         {renderPage()}
       </main>
     </div>
@@ -0,0 +1,46 @@
+import React from 'react';
+import { BadgeType, PlayerProfile } from '../types';
+import { BADGE_DEFINITIONS } from '../constants';
+import { getBadgeProgress } from '../utils/badges';
+
+interface BadgeShelfProps {
+  profile: PlayerProfile;
+}
+
+const BadgeShelf: React.FC<BadgeShelfProps> = ({ profile }) => {
+  const badges = Object.keys(BADGE_DEFINITIONS) as BadgeType[];
+
+  return (
+    <div className="bg-white rounded-xl shadow-md p-6 mt-10">
+      <h2 className="text-xl font-bold text-gray-700 mb-4">🏅 Badges ({profile.badges.length} / {badges.length})</h2>
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        {badges.map(badge => {
+          const { icon, description } = BADGE_DEFINITIONS[badge];
+          const progress = getBadgeProgress(badge, profile);
+          return (
+            <div key={badge} className={`p-3 rounded-lg border ${progress.complete ? 'border-yellow-300 bg-yellow-50' : 'border-gray-200'}`}>
+              <div className="flex items-center space-x-2">
+                <span className={`text-3xl ${progress.complete ? '' : 'grayscale opacity-50'}`}>{icon}</span>
+                <div>
+                  <p className="font-bold text-sm">{badge}</p>
+                  <p className="text-xs text-gray-500">{description}</p>
+                </div>
+              </div>
+              <div className="w-full bg-gray-200 rounded-full h-2 mt-3">
+                <div
+                  className={`h-2 rounded-full ${progress.complete ? 'bg-yellow-400' : 'bg-indigo-500'}`}
+                  style={{ width: `${(progress.current / progress.target) * 100}%` }}
+                ></div>
+              </div>
+              <p className="text-right text-xs font-semibold text-gray-600 mt-1">
+                {progress.current.toLocaleString()} / {progress.target.toLocaleString()}{progress.unit && ` ${progress.unit}`}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default BadgeShelf;
@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { ContentPack, PlayerProfile, QuizQuestion } from '../types';
+import { DAILY_ALLOWANCE, QUIZ_REWARD, STARTING_POINTS, BANKRUPTCY_THRESHOLD } from '../constants';
+import Button from './ui/Button';
+import Modal from './ui/Modal';
+import { emitGameEvent } from '../utils/gameEvents';
+import { hasClaimedAllowanceToday } from '../utils/economy';
+import { generateQuizQuestion } from '../utils/quiz';
+import { playSound } from '../utils/sounds';
+
+interface BankruptcyPanelProps {
+  profile: PlayerProfile;
+  content: ContentPack;
+}
+
+const BankruptcyPanel: React.FC<BankruptcyPanelProps> = ({ profile, content }) => {
+  const [question, setQuestion] = useState<QuizQuestion>(() => generateQuizQuestion(content));
+  const [chosenIndex, setChosenIndex] = useState<number | null>(null);
+  const [showResetConfirm, setShowResetConfirm] = useState(false);
+
+  const allowanceClaimed = hasClaimedAllowanceToday(profile);
+
+  const claimAllowance = () => {
+    if (allowanceClaimed) return;
+    playSound('success');
+    emitGameEvent({ type: 'allowance-claimed', amount: DAILY_ALLOWANCE });
+  };
+
+  const answerQuestion = (index: number) => {
+    if (chosenIndex !== null) return;
+    const correct = index === question.answerIndex;
+    playSound(correct ? 'success' : 'failure');
+    setChosenIndex(index);
+    emitGameEvent({
+      type: 'quiz-answered',
+      question: question.prompt,
+      answer: question.choices[index],
+      correct,
+      reward: QUIZ_REWARD,
+    });
+  };
+
+  const nextQuestion = () => {
+    setQuestion(generateQuizQuestion(content));
+    setChosenIndex(null);
+  };
+
+  const resetPoints = () => {
+    emitGameEvent({ type: 'points-reset', pointsBefore: profile.points, pointsAfter: STARTING_POINTS });
+    setShowResetConfirm(false);
+  };
+
+  const getChoiceClasses = (index: number) => {
+    if (chosenIndex === null) return 'bg-white hover:bg-indigo-50 border-gray-200';
+    if (index === question.answerIndex) return 'bg-green-100 border-green-400';
+    if (index === chosenIndex) return 'bg-red-100 border-red-400';
+    return 'bg-white border-gray-200 opacity-60';
+  };
+
+  return (
+    <div className="bg-red-50 border-2 border-red-200 rounded-xl p-6 mb-8 animate-fade-in">
+      <h2 className="text-2xl font-bold text-red-700">💸 You're out of points!</h2>
+      <p className="text-gray-700 mt-1">
+        You have {profile.points} PP, which is less than the {BANKRUPTCY_THRESHOLD} PP needed to play most rounds. Running out is part of learning about risk. Here's how to get back in the game:
+      </p>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mt-6">
+        <div className="bg-white rounded-lg shadow p-4 flex flex-col">
+          <h3 className="font-bold text-lg">🪙 Daily Allowance</h3>
+          <p className="text-sm text-gray-600 mb-4">Collect {DAILY_ALLOWANCE} PP once per day.</p>
+          <Button onClick={claimAllowance} disabled={allowanceClaimed} className="mt-auto">
+            {allowanceClaimed ? 'Come back tomorrow' : `Collect ${DAILY_ALLOWANCE} PP`}
+          </Button>
+        </div>
+
+        <div className="bg-white rounded-lg shadow p-4 lg:col-span-2">
+          <h3 className="font-bold text-lg">🧮 Probability Quiz</h3>
+          <p className="text-sm text-gray-600 mb-2">Earn {QUIZ_REWARD} PP for each correct answer.</p>
+          <p className="font-semibold mb-3">{question.prompt}</p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {question.choices.map((choice, index) => (
+              <button
+                key={choice}
+                onClick={() => answerQuestion(index)}
+                disabled={chosenIndex !== null}
+                className={`border-2 rounded-lg px-3 py-2 text-left transition-colors ${getChoiceClasses(index)}`}
+              >
+                {choice}
+              </button>
+            ))}
+          </div>
+          {chosenIndex !== null && (
+            <div className="mt-4 animate-fade-in">
+              <p className={`font-bold ${chosenIndex === question.answerIndex ? 'text-green-700' : 'text-red-700'}`}>
+                {chosenIndex === question.answerIndex ? `Correct! +${QUIZ_REWARD} PP` : 'Not quite.'}
+              </p>
+              <p className="text-sm text-gray-700">{question.explanation}</p>
+              <Button onClick={nextQuestion} variant="secondary" className="mt-3">Next Question</Button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="text-center mt-6">
+        <Button onClick={() => setShowResetConfirm(true)} variant="ghost">↺ Start over with {STARTING_POINTS} PP</Button>
+      </div>
+
+      <Modal isOpen={showResetConfirm} onClose={() => setShowResetConfirm(false)} title="Start Over?">
+        <div className="text-center">
+          <p className="text-lg">Your points will be reset to <strong>{STARTING_POINTS} PP</strong>. Your badges and game history are kept.</p>
+          <div className="flex justify-center space-x-4 mt-6">
+            <Button onClick={() => setShowResetConfirm(false)} variant="secondary">Cancel</Button>
+            <Button onClick={resetPoints}>Reset Points</Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+};
+
+export default BankruptcyPanel;
@@ -0,0 +1,98 @@
+import React, { useRef, useState } from 'react';
+import { ContentLibrary, ContentPack } from '../types';
+import { DEFAULT_CONTENT_PACK } from '../constants';
+import Button from './ui/Button';
+import { ContentPackError, parseContentPack, downloadContentPack, getAvailablePacks, addContentPack, removeContentPack } from '../utils/contentPacks';
+
+interface ContentPackManagerProps {
+  goBack: () => void;
+  library: ContentLibrary;
+  onChange: (library: ContentLibrary) => void;
+}
+
+const ContentPackManager: React.FC<ContentPackManagerProps> = ({ goBack, library, onChange }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importError, setImportError] = useState<{ message: string; problems: string[] } | null>(null);
+  const [importedName, setImportedName] = useState<string | null>(null);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setImportError(null);
+    setImportedName(null);
+    try {
+      const pack = parseContentPack(await file.text());
+      onChange(addContentPack(library, pack));
+      setImportedName(pack.name);
+    } catch (error) {
+      setImportError({
+        message: error instanceof Error ? error.message : String(error),
+        problems: error instanceof ContentPackError ? error.problems : [],
+      });
+    }
+  };
+
+  const describePack = (pack: ContentPack) =>
+    `${pack.luckyBoxes.length} boxes · ${pack.gameCases.length} cases · ${pack.survivalBridge.crossings.length} bridge options · ${pack.goalTargets.length} goal targets`;
+
+  return (
+    <div className="container mx-auto max-w-4xl">
+      <div className="flex justify-between items-center mb-8">
+        <Button onClick={goBack} variant="secondary">← Back to Games</Button>
+        <h1 className="text-4xl font-bold text-center text-indigo-600">Content Packs</h1>
+        <div className="w-32"></div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+        <h2 className="font-bold text-lg mb-1">Import a pack</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Export the classic pack to see the format, edit the JSON, then import it here. Packs are shared by every player on this device.
+        </p>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+        <Button onClick={() => fileInputRef.current?.click()}>📂 Choose JSON File</Button>
+        {importError && (
+          <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm" role="alert">
+            <p className="font-bold">That pack couldn't be imported:</p>
+            <p>{importError.message}</p>
+            {importError.problems.length > 0 && (
+              <ul className="list-disc list-inside mt-2 space-y-1">
+                {importError.problems.map((problem, i) => <li key={i}>{problem}</li>)}
+              </ul>
+            )}
+          </div>
+        )}
+        {importedName && (
+          <p className="mt-4 text-green-700 font-semibold">Imported "{importedName}".</p>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        {getAvailablePacks(library).map(pack => {
+          const isActive = pack.id === library.activePackId;
+          return (
+            <div key={pack.id} className={`bg-white rounded-lg shadow-md p-4 border-l-4 ${isActive ? 'border-indigo-500' : 'border-transparent'}`}>
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                <div>
+                  <h3 className="font-bold">{pack.name} {isActive && <span className="text-xs bg-indigo-100 text-indigo-700 rounded-full px-2 py-0.5 ml-1">Active</span>}</h3>
+                  {pack.description && <p className="text-sm text-gray-600">{pack.description}</p>}
+                  <p className="text-xs text-gray-500 mt-1">{describePack(pack)}</p>
+                </div>
+                <div className="flex space-x-2 shrink-0">
+                  <Button onClick={() => onChange({ ...library, activePackId: pack.id })} disabled={isActive}>Use</Button>
+                  <Button onClick={() => downloadContentPack(pack)} variant="secondary">Export</Button>
+                  {pack.id !== DEFAULT_CONTENT_PACK.id && (
+                    <Button onClick={() => onChange(removeContentPack(library, pack.id))} variant="ghost">Delete</Button>
+                  )}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ContentPackManager;
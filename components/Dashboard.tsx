@@ -1,17 +1,29 @@
 import React from 'react';
-import { Game } from '../types';
+import { ContentPack, PityRule, PlayerProfile } from '../types';
 import { GAME_CARDS } from '../constants';
 import GameCard from './GameCard';
+import Button from './ui/Button';
+import SeedControl from './SeedControl';
+import PityRuleControl from './PityRuleControl';
+import BadgeShelf from './BadgeShelf';
+import BankruptcyPanel from './BankruptcyPanel';
+import { isBankrupt } from '../utils/economy';
+import { Page } from '../utils/router';
 
 interface DashboardProps {
-  navigateTo: (page: Game) => void;
+  navigateTo: (page: Page) => void;
+  profile: PlayerProfile;
+  content: ContentPack;
+  pityRule: PityRule;
+  onPityRuleChange: (rule: PityRule) => void;
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ navigateTo }) => {
+const Dashboard: React.FC<DashboardProps> = ({ navigateTo, profile, content, pityRule, onPityRuleChange }) => {
   return (
     <div className="container mx-auto">
       <h1 className="text-3xl sm:text-4xl font-bold text-center mb-2 text-gray-800">Welcome To Bs Math 7th 2M)</h1>
       <p className="text-center text-gray-600 mb-8 sm:mb-12">Select a game to start learning about probability.</p>
+      {isBankrupt(profile.points) && <BankruptcyPanel profile={profile} content={content} />}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         {GAME_CARDS.map((game, index) => (
           <GameCard 
@@ -23,6 +35,14 @@ const Dashboard: React.FC<DashboardProps> = ({ navigateTo }) => {
           />
         ))}
       </div>
+      <div className="flex justify-center space-x-4 mt-8">
+        <Button onClick={() => navigateTo('statistics')} variant="secondary">📊 My Statistics</Button>
+        <Button onClick={() => navigateTo('content')} variant="secondary">📦 Content Packs</Button>
+      </div>
+      <p className="text-center text-sm text-gray-500 mt-2">Playing with: <strong>{content.name}</strong></p>
+      <BadgeShelf profile={profile} />
+      <SeedControl />
+      <PityRuleControl rule={pityRule} onChange={onPityRuleChange} />
     </div>
   );
 };
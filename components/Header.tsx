@@ -1,16 +1,16 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { BadgeType } from '../types';
+import { PlayerProfile } from '../types';
 import { BADGE_DEFINITIONS } from '../constants';
-import { toggleMute } from '../utils/sounds';
 
 interface HeaderProps {
-  points: number;
-  badges: BadgeType[];
+  profile: PlayerProfile | null;
+  onToggleMute: () => void;
+  onSwitchPlayer: () => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ points, badges }) => {
+const Header: React.FC<HeaderProps> = ({ profile, onToggleMute, onSwitchPlayer }) => {
+  const points = profile?.points ?? 0;
   const [isPointsAnimating, setIsPointsAnimating] = useState(false);
-  const [isMuted, setIsMuted] = useState(false);
   const prevPointsRef = useRef(points);
 
   useEffect(() => {
@@ -22,11 +22,6 @@ const Header: React.FC<HeaderProps> = ({ points, badges }) => {
     }
   }, [points]);
   
-  const handleMuteToggle = () => {
-    toggleMute();
-    setIsMuted(prev => !prev);
-  };
-
   return (
     <header className="bg-white shadow-md sticky top-0 z-10">
       <div className="container mx-auto px-4 sm:px-6 lg:px-8">
@@ -34,25 +29,31 @@ const Header: React.FC<HeaderProps> = ({ points, badges }) => {
           <div className="text-2xl font-bold text-indigo-600">
             🎲 Chance Champions
           </div>
-          <div className="flex items-center space-x-4">
-            <div className="flex items-center space-x-2">
-              {badges.map(badge => (
-                <div key={badge} className="group relative">
-                  <span className="text-2xl cursor-pointer">{BADGE_DEFINITIONS[badge].icon}</span>
-                  <div className="absolute bottom-full mb-2 w-max bg-gray-800 text-white text-xs rounded py-1 px-2 opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none left-1/2 -translate-x-1/2">
-                    <p className="font-bold">{badge}</p>
-                    <p>{BADGE_DEFINITIONS[badge].description}</p>
+          {profile && (
+            <div className="flex items-center space-x-4">
+              <div className="flex items-center space-x-2">
+                {profile.badges.map(badge => (
+                  <div key={badge} className="group relative">
+                    <span className="text-2xl cursor-pointer">{BADGE_DEFINITIONS[badge].icon}</span>
+                    <div className="absolute bottom-full mb-2 w-max bg-gray-800 text-white text-xs rounded py-1 px-2 opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none left-1/2 -translate-x-1/2">
+                      <p className="font-bold">{badge}</p>
+                      <p>{BADGE_DEFINITIONS[badge].description}</p>
+                    </div>
                   </div>
-                </div>
-              ))}
-            </div>
-            <button onClick={handleMuteToggle} className="p-2 rounded-full hover:bg-gray-200 transition-colors" aria-label={isMuted ? 'Unmute sounds' : 'Mute sounds'}>
-              <span className="text-2xl">{isMuted ? '🔇' : '🔊'}</span>
-            </button>
-            <div className={`bg-indigo-100 text-indigo-700 font-bold py-2 px-4 rounded-full transition-all ${isPointsAnimating ? 'animate-pulse-once' : ''}`}>
-              {points.toLocaleString()} PP
+                ))}
+              </div>
+              <button onClick={onToggleMute} className="p-2 rounded-full hover:bg-gray-200 transition-colors" aria-label={profile.isMuted ? 'Unmute sounds' : 'Mute sounds'}>
+                <span className="text-2xl">{profile.isMuted ? '🔇' : '🔊'}</span>
+              </button>
+              <div className={`bg-indigo-100 text-indigo-700 font-bold py-2 px-4 rounded-full transition-all ${isPointsAnimating ? 'animate-pulse-once' : ''}`}>
+                {points.toLocaleString()} PP
+              </div>
+              <button onClick={onSwitchPlayer} className="flex items-center space-x-2 py-1 px-3 rounded-full hover:bg-gray-200 transition-colors" title="Switch player">
+                <span className="text-2xl">{profile.avatar}</span>
+                <span className="font-semibold text-gray-700 hidden sm:inline">{profile.name}</span>
+              </button>
             </div>
-          </div>
+          )}
         </div>
       </div>
     </header>
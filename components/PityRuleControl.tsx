@@ -0,0 +1,51 @@
+import React from 'react';
+import { PityRule } from '../types';
+
+interface PityRuleControlProps {
+  rule: PityRule;
+  onChange: (rule: PityRule) => void;
+}
+
+const MIN_THRESHOLD = 2;
+const MAX_THRESHOLD = 200;
+
+const PityRuleControl: React.FC<PityRuleControlProps> = ({ rule, onChange }) => {
+  const setThreshold = (value: number) => {
+    if (!Number.isFinite(value)) return;
+    onChange({ ...rule, threshold: Math.min(MAX_THRESHOLD, Math.max(MIN_THRESHOLD, Math.round(value))) });
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-md p-4 mt-6 max-w-xl mx-auto">
+      <h2 className="font-bold text-gray-700">🎁 Lucky Box Pity Rule</h2>
+      <p className="text-sm text-gray-500 mb-3">
+        Many real loot-box games promise a top-rarity item after a long enough dry spell. Switch this on to see how it changes the real odds in the shop's Rarity Odds tab.
+      </p>
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center space-x-2 font-semibold text-gray-700">
+          <input type="checkbox" checked={rule.enabled} onChange={(e) => onChange({ ...rule, enabled: e.target.checked })} className="w-4 h-4" />
+          <span>Pity rule on</span>
+        </label>
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <span>Guaranteed on open</span>
+          <input
+            type="number"
+            min={MIN_THRESHOLD}
+            max={MAX_THRESHOLD}
+            value={rule.threshold}
+            onChange={(e) => setThreshold(Number(e.target.value))}
+            aria-label="Pity threshold"
+            className="w-20 border border-gray-300 rounded-lg px-2 py-1"
+          />
+        </label>
+      </div>
+      <p className="text-sm mt-2 text-gray-600">
+        {rule.enabled
+          ? <>After <strong>{rule.threshold - 1}</strong> opens of a box without its rarest tier, the next open is guaranteed to give one.</>
+          : 'Off: every open uses the odds printed on the box.'}
+      </p>
+    </div>
+  );
+};
+
+export default PityRuleControl;
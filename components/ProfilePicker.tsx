@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { PlayerProfile } from '../types';
+import { PROFILE_AVATARS } from '../constants';
+import Button from './ui/Button';
+import Modal from './ui/Modal';
+
+interface ProfilePickerProps {
+  profiles: PlayerProfile[];
+  onSelect: (profileId: string) => void;
+  onCreate: (name: string, avatar: string) => void;
+  onRename: (profileId: string, name: string) => void;
+  onDelete: (profileId: string) => void;
+}
+
+const MAX_NAME_LENGTH = 20;
+
+const ProfilePicker: React.FC<ProfilePickerProps> = ({ profiles, onSelect, onCreate, onRename, onDelete }) => {
+  const [newName, setNewName] = useState('');
+  const [newAvatar, setNewAvatar] = useState(PROFILE_AVATARS[0]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [profileToDelete, setProfileToDelete] = useState<PlayerProfile | null>(null);
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+    onCreate(name, newAvatar);
+    setNewName('');
+  };
+
+  const startRename = (profile: PlayerProfile) => {
+    setEditingId(profile.id);
+    setEditingName(profile.name);
+  };
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = editingName.trim();
+    if (editingId && name) {
+      onRename(editingId, name);
+    }
+    setEditingId(null);
+  };
+
+  const confirmDelete = () => {
+    if (profileToDelete) {
+      onDelete(profileToDelete.id);
+    }
+    setProfileToDelete(null);
+  };
+
+  return (
+    <div className="container mx-auto max-w-4xl">
+      <h1 className="text-3xl sm:text-4xl font-bold text-center mb-2 text-gray-800">Who's Playing?</h1>
+      <p className="text-center text-gray-600 mb-8">Pick your profile so your points and badges stay yours.</p>
+
+      {profiles.length > 0 && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6 mb-10">
+          {profiles.map((profile, index) => (
+            <div
+              key={profile.id}
+              className="bg-white rounded-xl shadow-lg p-6 flex flex-col items-center animate-fade-in-down"
+              style={{ animationDelay: `${index * 100}ms` }}
+            >
+              <button onClick={() => onSelect(profile.id)} className="text-6xl mb-2 transform hover:scale-110 transition-transform" aria-label={`Play as ${profile.name}`}>
+                {profile.avatar}
+              </button>
+              {editingId === profile.id ? (
+                <form onSubmit={handleRename} className="w-full flex space-x-2">
+                  <input
+                    value={editingName}
+                    onChange={(e) => setEditingName(e.target.value)}
+                    maxLength={MAX_NAME_LENGTH}
+                    autoFocus
+                    className="flex-1 min-w-0 border border-gray-300 rounded-lg px-2 py-1"
+                  />
+                  <Button type="submit" className="text-sm">Save</Button>
+                </form>
+              ) : (
+                <h2 className="text-xl font-bold text-gray-800">{profile.name}</h2>
+              )}
+              <p className="text-indigo-600 font-semibold mt-1">{profile.points.toLocaleString()} PP · {profile.badges.length} badges</p>
+              <div className="flex space-x-2 mt-4">
+                <Button onClick={() => onSelect(profile.id)}>Play</Button>
+                <Button onClick={() => startRename(profile)} variant="ghost">Rename</Button>
+                <Button onClick={() => setProfileToDelete(profile)} variant="ghost">Delete</Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleCreate} className="bg-white rounded-xl shadow-lg p-6">
+        <h2 className="text-xl font-bold mb-4">New Player</h2>
+        <label htmlFor="new-profile-name" className="font-semibold text-sm text-gray-600">Name</label>
+        <input
+          id="new-profile-name"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          maxLength={MAX_NAME_LENGTH}
+          placeholder="Your name"
+          className="w-full border border-gray-300 rounded-lg px-3 py-2 mt-1 mb-4"
+        />
+        <p className="font-semibold text-sm text-gray-600 mb-1">Avatar</p>
+        <div className="flex flex-wrap gap-2 mb-6">
+          {PROFILE_AVATARS.map(avatar => (
+            <button
+              key={avatar}
+              type="button"
+              onClick={() => setNewAvatar(avatar)}
+              className={`text-3xl p-2 rounded-lg transition-colors ${newAvatar === avatar ? 'bg-indigo-100 ring-2 ring-indigo-500' : 'hover:bg-gray-100'}`}
+              aria-label={`Choose avatar ${avatar}`}
+            >
+              {avatar}
+            </button>
+          ))}
+        </div>
+        <Button type="submit" disabled={!newName.trim()}>Create Profile</Button>
+      </form>
+
+      <Modal isOpen={profileToDelete !== null} onClose={() => setProfileToDelete(null)} title="Delete Profile?">
+        {profileToDelete && (
+          <div className="text-center">
+            <span className="text-6xl block mb-4">{profileToDelete.avatar}</span>
+            <p className="text-lg">This will erase all of <strong>{profileToDelete.name}</strong>'s points, badges and history.</p>
+            <div className="flex justify-center space-x-4 mt-6">
+              <Button onClick={() => setProfileToDelete(null)} variant="secondary">Cancel</Button>
+              <Button onClick={confirmDelete}>Delete</Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+};
+
+export default ProfilePicker;
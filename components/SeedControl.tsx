@@ -0,0 +1,46 @@
+import React, { useState } from 'react';
+import Button from './ui/Button';
+import { getSeed, setSeed } from '../utils/random';
+
+const SeedControl: React.FC = () => {
+  const [activeSeed, setActiveSeed] = useState<string | null>(getSeed);
+  const [input, setInput] = useState(activeSeed ?? '');
+
+  const applySeed = (e: React.FormEvent) => {
+    e.preventDefault();
+    const seed = input.trim() || null;
+    setSeed(seed);
+    setActiveSeed(seed);
+  };
+
+  const clearSeed = () => {
+    setSeed(null);
+    setActiveSeed(null);
+    setInput('');
+  };
+
+  return (
+    <form onSubmit={applySeed} className="bg-white rounded-xl shadow-md p-4 mt-10 max-w-xl mx-auto">
+      <h2 className="font-bold text-gray-700">🎲 Class Seed</h2>
+      <p className="text-sm text-gray-500 mb-3">
+        Everyone who enters the same seed gets the same sequence of results, so the whole class can compare and discuss them.
+      </p>
+      <div className="flex space-x-2">
+        <input
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder="e.g. monday-lesson"
+          aria-label="Class seed"
+          className="flex-1 min-w-0 border border-gray-300 rounded-lg px-3 py-2"
+        />
+        <Button type="submit">Apply</Button>
+        {activeSeed !== null && <Button type="button" onClick={clearSeed} variant="secondary">Clear</Button>}
+      </div>
+      <p className="text-sm mt-2 text-gray-600">
+        {activeSeed !== null ? <>Seed <strong>{activeSeed}</strong> is active. Apply it again to restart the sequence.</> : 'No seed: results are fully random.'}
+      </p>
+    </form>
+  );
+};
+
+export default SeedControl;
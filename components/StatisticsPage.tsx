@@ -0,0 +1,78 @@
+import React, { useMemo, useState } from 'react';
+import { ContentPack, CustomLuckyBox, PlayerProfile, SurvivalBridgeConfig } from '../types';
+import Button from './ui/Button';
+import FrequencyComparison from './ui/FrequencyComparison';
+import RunningAverageChart from './ui/RunningAverageChart';
+import { getLuckyBoxStats, getGoalStats, getBridgeStats, OutcomeStats } from '../utils/statistics';
+
+interface StatisticsPageProps {
+  goBack: () => void;
+  profile: PlayerProfile;
+  content: ContentPack;
+  customBoxes: CustomLuckyBox[];
+  bridge: SurvivalBridgeConfig;
+}
+
+type Tab = 'boxes' | 'goals' | 'bridge';
+
+const TABS: { id: Tab; label: string }[] = [
+  { id: 'boxes', label: '🎁 Lucky Boxes' },
+  { id: 'goals', label: '⚽ Goal Targets' },
+  { id: 'bridge', label: '🌉 Bridge Groups' },
+];
+
+const StatisticsPage: React.FC<StatisticsPageProps> = ({ goBack, profile, content, customBoxes, bridge }) => {
+  const [tab, setTab] = useState<Tab>('boxes');
+
+  const stats = useMemo<Record<Tab, OutcomeStats[]>>(() => ({
+    boxes: getLuckyBoxStats(profile.history, [...content.luckyBoxes, ...customBoxes]),
+    goals: getGoalStats(profile.history, content.goalTargets),
+    bridge: getBridgeStats(profile.history, bridge.crossings),
+  }), [profile.history, content, customBoxes, bridge]);
+
+  const played = stats[tab].filter(s => s.trials > 0);
+  const unplayed = stats[tab].filter(s => s.trials === 0);
+
+  return (
+    <div className="container mx-auto">
+      <div className="flex justify-between items-center mb-4">
+        <Button onClick={goBack} variant="secondary">← Back to Games</Button>
+        <h1 className="text-4xl font-bold text-center text-indigo-600">My Statistics</h1>
+        <div className="w-32"></div>
+      </div>
+      <p className="text-center text-gray-600 mb-6 max-w-2xl mx-auto">
+        Compare what actually happened to you (<span className="text-indigo-600 font-semibold">experimental</span>) with what the probabilities predict (<span className="text-green-600 font-semibold">theoretical</span>). The more you play, the closer they should get!
+      </p>
+
+      <div className="flex justify-center space-x-2 mb-6">
+        {TABS.map(t => (
+          <Button key={t.id} onClick={() => setTab(t.id)} variant={tab === t.id ? 'primary' : 'secondary'}>{t.label}</Button>
+        ))}
+      </div>
+
+      {played.length === 0 && (
+        <p className="text-center text-gray-500 bg-white rounded-lg p-8 shadow">No results yet. Play a few rounds and come back!</p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {played.map(s => (
+          <div key={s.id} className="bg-white rounded-lg shadow-md p-4 animate-fade-in">
+            <div className="flex justify-between items-baseline mb-3">
+              <h2 className="font-bold text-lg">{s.label}</h2>
+              <span className="text-sm text-gray-500">{s.trials} trial{s.trials === 1 ? '' : 's'}</span>
+            </div>
+            <FrequencyComparison rows={s.frequencies} />
+            <h3 className="font-semibold text-sm text-gray-700 mt-4 mb-1">Average payoff per round</h3>
+            <RunningAverageChart averages={s.runningAverages} expected={s.expectedPayoff} />
+          </div>
+        ))}
+      </div>
+
+      {played.length > 0 && unplayed.length > 0 && (
+        <p className="text-sm text-gray-500 mt-6 text-center">Not tried yet: {unplayed.map(s => s.label).join(', ')}</p>
+      )}
+    </div>
+  );
+};
+
+export default StatisticsPage;
@@ -0,0 +1,60 @@
+import React from 'react';
+import { Clue, GameCase } from '../../types';
+import { getBayesSteps, getClueReliability, getPriors } from '../../utils/bayes';
+
+interface BayesWalkthroughProps {
+  gameCase: GameCase;
+  clues: Clue[];
+}
+
+const formatPercent = (p: number) => `${(p * 100).toFixed(1)}%`;
+
+const BayesWalkthrough: React.FC<BayesWalkthroughProps> = ({ gameCase, clues }) => {
+  const priors = getPriors(gameCase.suspects);
+  const steps = getBayesSteps(gameCase, clues);
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div>
+        <h4 className="font-bold text-gray-800">Start: the priors for "{gameCase.title}"</h4>
+        <ul className="grid grid-cols-2 gap-x-4 mt-1">
+          {gameCase.suspects.map((s, i) => (
+            <li key={s.id} className="flex justify-between"><span>{s.avatar} {s.name}</span><span>{formatPercent(priors[i])}</span></li>
+          ))}
+        </ul>
+      </div>
+
+      {steps.length === 0 && <p className="text-gray-500 italic">Reveal a clue and come back here to see each step of the calculation.</p>}
+
+      {steps.map((step, index) => (
+        <div key={step.clue.id} className="border-t pt-3">
+          <h4 className="font-bold text-gray-800">Clue {index + 1}: "{step.clue.text}"</h4>
+          <p className="text-gray-600">Reliability {formatPercent(getClueReliability(step.clue))}. The likelihood is the chance of this clue if that suspect were the thief.</p>
+          <table className="w-full mt-2">
+            <thead>
+              <tr className="text-gray-500 text-left">
+                <th>Suspect</th><th>Prior</th><th>× Likelihood</th><th>= Product</th><th>Posterior</th>
+              </tr>
+            </thead>
+            <tbody>
+              {step.rows.map(row => (
+                <tr key={row.suspect.id} className={row.posterior === 0 ? 'text-gray-400' : ''}>
+                  <td>{row.suspect.avatar} {row.suspect.name}</td>
+                  <td>{formatPercent(row.prior)}</td>
+                  <td>{row.likelihood.toFixed(2)}</td>
+                  <td>{row.joint.toFixed(3)}</td>
+                  <td className="font-semibold">{formatPercent(row.posterior)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-gray-600 mt-1">
+            The products add up to <strong>{step.evidence.toFixed(3)}</strong>, the overall chance of hearing this clue. Dividing each product by it gives the posteriors.
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default BayesWalkthrough;
@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { BridgeCrossingConfig, SurvivalBridgeConfig } from '../../types';
+import Button from '../ui/Button';
+import { validateSurvivalBridge } from '../../utils/contentValidation';
+import { crossingEV, getBridgeWarnings } from '../../utils/bridge';
+import { playSound } from '../../utils/sounds';
+
+interface BridgeTableEditorProps {
+  initial: SurvivalBridgeConfig;
+  onSave: (bridge: SurvivalBridgeConfig) => void;
+  onCancel: () => void;
+}
+
+// Chances are typed as percentages, like in the box designer, but the draft
+// keeps the exact probability so an untouched row saves unchanged.
+interface DraftRow {
+  probability: number;
+  reward: number;
+  penalty: number;
+}
+
+const MIN_ADVENTURERS = 2;
+const MAX_ADVENTURERS = 12;
+
+const toDraft = (c: BridgeCrossingConfig): DraftRow => ({ probability: c.probability, reward: c.reward, penalty: c.penalty });
+
+// 12 significant digits hide floating-point noise such as 35.00000000000001
+const toPercent = (probability: number) => Number((probability * 100).toPrecision(12));
+
+const BridgeTableEditor: React.FC<BridgeTableEditorProps> = ({ initial, onSave, onCancel }) => {
+  const [rows, setRows] = useState<DraftRow[]>(() => [...initial.crossings].sort((a, b) => a.count - b.count).map(toDraft));
+
+  const bridge: SurvivalBridgeConfig = {
+    totalAdventurers: rows.length,
+    crossings: rows.map((row, i) => ({ count: i + 1, probability: row.probability, reward: row.reward, penalty: row.penalty })),
+  };
+  const problems = validateSurvivalBridge(bridge);
+  const warnings = getBridgeWarnings(bridge);
+  const evs = bridge.crossings.map(crossingEV);
+  const largest = Math.max(1, ...evs.map(Math.abs));
+  const bestCount = bridge.crossings[evs.indexOf(Math.max(...evs))].count;
+
+  const setAdventurers = (count: number) => {
+    if (!Number.isFinite(count)) return;
+    const clamped = Math.min(MAX_ADVENTURERS, Math.max(MIN_ADVENTURERS, Math.round(count)));
+    setRows(prev => clamped <= prev.length
+      ? prev.slice(0, clamped)
+      : [...prev, ...Array.from({ length: clamped - prev.length }, () => ({ ...prev[prev.length - 1] }))]);
+  };
+
+  const updateRow = (index: number, change: Partial<DraftRow>) =>
+    setRows(prev => prev.map((row, i) => i === index ? { ...row, ...change } : row));
+
+  const save = () => {
+    if (problems.length > 0) return;
+    playSound('success');
+    onSave(bridge);
+  };
+
+  const inputClasses = 'border border-gray-300 rounded-lg px-2 py-1 w-20';
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-lg">
+      <h2 className="text-2xl font-bold text-gray-800">🛠️ Bridge Table Editor</h2>
+      <p className="text-gray-600 mb-4">Set the chance, reward and penalty for every group size. Watch the EV curve: a good table gives students a real decision to make.</p>
+
+      <label className="text-sm font-semibold text-gray-700">
+        Adventurers
+        <input type="number" min={MIN_ADVENTURERS} max={MAX_ADVENTURERS} value={rows.length} onChange={(e) => setAdventurers(Number(e.target.value))} className={`${inputClasses} ml-2`} />
+      </label>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mt-4">
+        <table className="text-sm">
+          <thead>
+            <tr className="text-left text-gray-500"><th>Send</th><th>Chance %</th><th>Reward</th><th>Penalty</th><th>EV</th></tr>
+          </thead>
+          <tbody>
+            {rows.map((row, i) => (
+              <tr key={i}>
+                <td className="font-semibold">{i + 1}</td>
+                <td><input type="number" min="0" max="100" step="any" value={toPercent(row.probability)} onChange={(e) => updateRow(i, { probability: Number(e.target.value) / 100 })} className={inputClasses} aria-label={`Chance for ${i + 1}`} /></td>
+                <td><input type="number" value={row.reward} onChange={(e) => updateRow(i, { reward: Number(e.target.value) })} className={inputClasses} aria-label={`Reward for ${i + 1}`} /></td>
+                <td><input type="number" value={row.penalty} onChange={(e) => updateRow(i, { penalty: Number(e.target.value) })} className={inputClasses} aria-label={`Penalty for ${i + 1}`} /></td>
+                <td className={evs[i] >= 0 ? 'text-green-700' : 'text-red-600'}>{evs[i].toFixed(1)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div>
+          <h3 className="font-semibold text-gray-700 mb-2">EV curve</h3>
+          <div className="flex items-stretch gap-1 h-48">
+            {evs.map((ev, i) => (
+              <div key={i} className="flex-1 flex flex-col" title={`Send ${i + 1}: ${ev.toFixed(1)} PP`}>
+                <div className="flex-1 flex items-end">
+                  {ev > 0 && <div className={`w-full rounded-t ${i + 1 === bestCount ? 'bg-green-600' : 'bg-green-400'}`} style={{ height: `${(ev / largest) * 100}%` }}></div>}
+                </div>
+                <div className="border-t border-gray-400 flex-1 flex items-start">
+                  {ev < 0 && <div className="w-full rounded-b bg-red-400" style={{ height: `${(-ev / largest) * 100}%` }}></div>}
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-1 text-xs text-gray-600">
+            {evs.map((_, i) => <div key={i} className="flex-1 text-center">{i + 1}</div>)}
+          </div>
+
+          {warnings.length > 0 && (
+            <ul className="mt-4 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded p-3 space-y-1">
+              {warnings.map(w => <li key={w}>⚠️ {w}</li>)}
+            </ul>
+          )}
+          {problems.length > 0 && (
+            <ul className="mt-4 text-sm text-red-700 bg-red-50 border border-red-200 rounded p-3 space-y-1">
+              {problems.map(p => <li key={p}>{p}</li>)}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      <div className="flex justify-end space-x-2 mt-6">
+        <Button onClick={onCancel} variant="secondary">Cancel</Button>
+        <Button onClick={save} disabled={problems.length > 0}>Save &amp; Use This Table</Button>
+      </div>
+    </div>
+  );
+};
+
+export default BridgeTableEditor;
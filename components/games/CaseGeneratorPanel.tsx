@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { CaseDifficulty, GameCase } from '../../types';
+import { CASE_DIFFICULTIES } from '../../constants';
+import { CASE_GENERATOR_LIMITS, CASE_GENERATOR_PRESETS, CaseGeneratorOptions, generateCase } from '../../utils/caseGenerator';
+import Button from '../ui/Button';
+
+interface CaseGeneratorPanelProps {
+  disabled: boolean;
+  onGenerate: (gameCase: GameCase) => void;
+}
+
+const OPTION_LABELS: Record<keyof CaseGeneratorOptions, string> = {
+  suspectCount: 'Suspects',
+  attributeCount: 'Useful clues',
+  redHerringCount: 'Red herrings',
+};
+
+// Today's date, so a class that doesn't pick a seed still shares one case per day
+const todaysSeed = () => new Date().toISOString().slice(0, 10);
+
+const CaseGeneratorPanel: React.FC<CaseGeneratorPanelProps> = ({ disabled, onGenerate }) => {
+  const [seed, setSeed] = useState(todaysSeed);
+  const [options, setOptions] = useState<CaseGeneratorOptions>(CASE_GENERATOR_PRESETS.medium);
+  const [error, setError] = useState<string | null>(null);
+
+  const applyPreset = (difficulty: CaseDifficulty) => {
+    setOptions(CASE_GENERATOR_PRESETS[difficulty]);
+    setError(null);
+  };
+
+  const setOption = (key: keyof CaseGeneratorOptions, value: number) => {
+    setOptions(prev => ({ ...prev, [key]: value }));
+    setError(null);
+  };
+
+  const generate = () => {
+    try {
+      onGenerate(generateCase(seed.trim() || todaysSeed(), options));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'The case could not be generated.');
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-lg mb-6 border-2 border-dashed border-blue-200">
+      <h3 className="text-xl font-bold text-gray-800">🧪 Generate a New Case</h3>
+      <p className="text-gray-600 text-sm mb-4">
+        Every device that uses the same seed and settings gets the same mystery, and the clues always point to exactly one suspect.
+      </p>
+      <div className="flex flex-wrap items-end gap-4">
+        <label className="text-sm text-gray-700">
+          <span className="block font-semibold">Seed</span>
+          <input value={seed} onChange={(e) => setSeed(e.target.value)} className="border border-gray-300 rounded-lg px-2 py-1 w-36" />
+        </label>
+        <div className="text-sm text-gray-700">
+          <span className="block font-semibold">Preset</span>
+          <div className="flex space-x-1">
+            {CASE_DIFFICULTIES.map(d => (
+              <button key={d} onClick={() => applyPreset(d)} className="capitalize px-2 py-1 rounded-lg bg-gray-100 hover:bg-gray-200">{d}</button>
+            ))}
+          </div>
+        </div>
+        {(Object.keys(OPTION_LABELS) as Array<keyof CaseGeneratorOptions>).map(key => (
+          <label key={key} className="text-sm text-gray-700">
+            <span className="block font-semibold">{OPTION_LABELS[key]}</span>
+            <input
+              type="number"
+              min={CASE_GENERATOR_LIMITS[key].min}
+              max={CASE_GENERATOR_LIMITS[key].max}
+              value={options[key]}
+              onChange={(e) => setOption(key, Number(e.target.value))}
+              className="border border-gray-300 rounded-lg px-2 py-1 w-20"
+            />
+          </label>
+        ))}
+        <Button onClick={generate} disabled={disabled}>Generate &amp; Investigate</Button>
+      </div>
+      {error && <p className="text-sm text-red-600 mt-3">{error}</p>}
+    </div>
+  );
+};
+
+export default CaseGeneratorPanel;
@@ -1,127 +1,179 @@
 
 import React, { useState, useCallback } from 'react';
-import { BadgeType, GameCase, Suspect, Clue, ClueTemplate } from '../../types';
-import { GAME_CASES } from '../../constants';
+import { CaseDifficulty, Game, GameCase, GameEvent, Suspect, Clue } from '../../types';
 import Button from '../ui/Button';
 import Modal from '../ui/Modal';
 import { playSound } from '../../utils/sounds';
+import { useLearnMode } from '../../utils/router';
+import { emitGameEvent } from '../../utils/gameEvents';
+import { canCoverStake } from '../../utils/economy';
+import { CORRECT_ACCUSATION_REWARD, CaseStatus, UNUSED_CLUE_BONUS, WRONG_ACCUSATION_PENALTY, canRandomizeCulprit, getAccusationReward, getCaseDifficulty, getCaseStatus, pickRandomCulprit, prepareCase } from '../../utils/cases';
+import { entropy, forecastClue, getClueReliability, getPosteriors, getPriors } from '../../utils/bayes';
+import BayesWalkthrough from './BayesWalkthrough';
+import CaseGeneratorPanel from './CaseGeneratorPanel';
 
 interface FindTheThiefProps {
   goBack: () => void;
-  updatePoints: (amount: number) => void;
-  earnBadge: (badge: BadgeType) => void;
+  currentPoints: number;
+  cases: GameCase[];
+  history: GameEvent[];
 }
 
 interface SuspectWithProb extends Suspect {
     probability: number;
 }
 
-const FindTheThief: React.FC<FindTheThiefProps> = ({ goBack, updatePoints, earnBadge }) => {
+// "hasKitchenAccess" -> "has kitchen access"
+const describeAttribute = (attribute: string) => attribute.replace(/([A-Z])/g, ' $1').toLowerCase();
+
+const DIFFICULTY_STYLES: Record<CaseDifficulty, string> = {
+    easy: 'bg-green-100 text-green-700',
+    medium: 'bg-yellow-100 text-yellow-700',
+    hard: 'bg-red-100 text-red-700',
+};
+
+const STATUS_LABELS: Record<CaseStatus, { label: string; className: string }> = {
+    new: { label: 'New', className: 'bg-blue-100 text-blue-700' },
+    attempted: { label: 'Attempted', className: 'bg-gray-100 text-gray-600' },
+    solved: { label: '✔ Solved', className: 'bg-indigo-100 text-indigo-700' },
+};
+
+const FindTheThief: React.FC<FindTheThiefProps> = ({ goBack, currentPoints, cases, history }) => {
     const [gameState, setGameState] = useState<'intro' | 'playing' | 'revealed'>('intro');
-    const [currentCase, setCurrentCase] = useState<GameCase>(GAME_CASES[0]);
+    const [currentCase, setCurrentCase] = useState<GameCase>(cases[0]);
     const [gameClues, setGameClues] = useState<Clue[]>([]);
     const [suspects, setSuspects] = useState<SuspectWithProb[]>([]);
     const [revealedClues, setRevealedClues] = useState<Clue[]>([]);
-    const [showLearnMode, setShowLearnMode] = useState(false);
-    const [result, setResult] = useState<{correct: boolean, guilty: Suspect} | null>(null);
+    const [showLearnMode, setShowLearnMode] = useLearnMode(Game.FindTheThief);
+    const [result, setResult] = useState<{correct: boolean, guilty: Suspect, reward: number} | null>(null);
+    const [randomCulprit, setRandomCulprit] = useState(false);
+    const [selectedCaseId, setSelectedCaseId] = useState(cases[0].id);
+    const [generatedCase, setGeneratedCase] = useState<GameCase | null>(null);
 
-    const startGame = useCallback(() => {
-        playSound('click');
-        // Deep copy the case to avoid mutating the constant
-        const newCaseTemplate: GameCase = JSON.parse(JSON.stringify(GAME_CASES[0]));
+    // A generated case sits at the top of the list until another is generated.
+    const browsableCases = generatedCase ? [generatedCase, ...cases] : cases;
+    const selectedCase = browsableCases.find(c => c.id === selectedCaseId) ?? cases[0];
 
-        // Find the guilty suspect from the template's predefined ID
-        const guiltySuspect = newCaseTemplate.suspects.find(s => s.id === newCaseTemplate.guiltySuspectId);
+    const canAffordCase = canCoverStake(currentPoints, WRONG_ACCUSATION_PENALTY);
 
-        if (!guiltySuspect) {
+    const startGame = useCallback((template: GameCase = selectedCase) => {
+        if (!canAffordCase) {
+            setGameState('intro');
+            return;
+        }
+        playSound('click');
+        setSelectedCaseId(template.id);
+        const culpritId = randomCulprit && canRandomizeCulprit(template) ? pickRandomCulprit(template) : template.guiltySuspectId;
+        const prepared = prepareCase(template, culpritId);
+        if (!prepared) {
             console.error("Guilty suspect not found in the case data.");
             return;
         }
 
-        // Generate clues based on the fixed guilty suspect's attributes
-        const preparedClues: Clue[] = newCaseTemplate.clues.map((clueTemplate: ClueTemplate) => {
-            const expectedValue = guiltySuspect.attributes[clueTemplate.attribute];
-            const clueText = clueTemplate.texts[String(expectedValue)];
-            return {
-                id: clueTemplate.id,
-                text: clueText,
-                attribute: clueTemplate.attribute,
-                expectedValue: expectedValue,
-            };
-        });
-        
-        setCurrentCase(newCaseTemplate);
-        setGameClues(preparedClues);
+        setCurrentCase(prepared.gameCase);
+        setGameClues(prepared.clues);
 
-        const initialProb = 1 / newCaseTemplate.suspects.length;
-        setSuspects(newCaseTemplate.suspects.map(s => ({ ...s, probability: initialProb })));
+        const priors = getPriors(prepared.gameCase.suspects);
+        setSuspects(prepared.gameCase.suspects.map((s, i) => ({ ...s, probability: priors[i] })));
         setRevealedClues([]);
         setResult(null);
         setGameState('playing');
-    }, []);
+    }, [canAffordCase, selectedCase, randomCulprit]);
 
-    const revealNextClue = useCallback(() => {
-        if (revealedClues.length >= gameClues.length) return;
+    const revealClue = useCallback((clueId: number) => {
+        const nextClue = gameClues.find(c => c.id === clueId);
+        if (!nextClue || revealedClues.some(c => c.id === clueId)) return;
 
         playSound('click');
-        const nextClue = gameClues[revealedClues.length];
-        setRevealedClues(prev => [...prev, nextClue]);
-
-        setSuspects(prevSuspects => {
-            // Identify suspects who were possible before this clue and also match this clue.
-            const stillViableSuspects = prevSuspects.filter(s => {
-                return s.probability > 0 && s.attributes[nextClue.attribute] === nextClue.expectedValue;
-            });
-
-            // If no suspects match (which shouldn't happen), don't change anything.
-            if (stillViableSuspects.length === 0) return prevSuspects;
-
-            // The new probability is evenly distributed among the remaining suspects.
-            const newProb = 1 / stillViableSuspects.length;
-            const viableIds = new Set(stillViableSuspects.map(s => s.id));
-
-            // Update state: viable suspects get the new probability, everyone else gets 0.
-            return prevSuspects.map(s => {
-                if (viableIds.has(s.id)) {
-                    return { ...s, probability: newProb };
-                }
-                // If the suspect is not in the viable set, they are eliminated.
-                return { ...s, probability: 0 };
-            });
-        });
-    }, [revealedClues, gameClues]);
+        const clues = [...revealedClues, nextClue];
+        setRevealedClues(clues);
+
+        // Posterior = prior × likelihood of every clue so far, rescaled to 1.
+        // A certain clue rules out anyone who doesn't match; a noisy one only
+        // makes them less likely.
+        const posteriors = getPosteriors(currentCase, clues);
+        setSuspects(prevSuspects => prevSuspects.map((s, i) => ({ ...s, probability: posteriors[i] })));
+    }, [revealedClues, gameClues, currentCase]);
 
     const makeAccusation = (accusedSuspect: SuspectWithProb) => {
         const guiltySuspect = suspects.find(s => s.id === currentCase.guiltySuspectId)!;
         const isCorrect = accusedSuspect.id === currentCase.guiltySuspectId;
+        const reward = getAccusationReward(accusedSuspect.probability, gameClues.length - revealedClues.length);
 
-        if (isCorrect) {
-            playSound('success');
-            updatePoints(250);
-            earnBadge(BadgeType.MasterDetective);
-        } else {
-            playSound('failure');
-            updatePoints(-50);
-        }
+        emitGameEvent({
+            type: 'suspect-accused',
+            caseId: currentCase.id,
+            accusedSuspectId: accusedSuspect.id,
+            guiltySuspectId: currentCase.guiltySuspectId,
+            correct: isCorrect,
+            cluesRevealed: revealedClues,
+            reward,
+            penalty: WRONG_ACCUSATION_PENALTY,
+        });
+        playSound(isCorrect ? 'success' : 'failure');
         
-        setResult({ correct: isCorrect, guilty: guiltySuspect });
+        setResult({ correct: isCorrect, guilty: guiltySuspect, reward });
         setGameState('revealed');
     };
 
-    const isAccusationTime = revealedClues.length === gameClues.length;
+    const isAccusationTime = gameState === 'playing';
+    const allCluesRevealed = revealedClues.length === gameClues.length;
 
     const renderIntro = () => (
-        <div className="text-center bg-white p-8 rounded-lg shadow-lg max-w-2xl mx-auto">
-            <span className="text-6xl mb-4 block">📜</span>
-            <h2 className="text-3xl font-bold text-gray-800 mb-2">{GAME_CASES[0].title}</h2>
-            <p className="text-gray-600 mb-6">{GAME_CASES[0].story}</p>
-            <Button onClick={startGame}>Start Investigation</Button>
+        <div className="max-w-4xl mx-auto">
+            <div className="text-center mb-6">
+                <span className="text-6xl mb-2 block">📜</span>
+                <h2 className="text-3xl font-bold text-gray-800">Case Files</h2>
+                <p className="text-gray-600">Pick a case to investigate.</p>
+                <label className="inline-flex items-center space-x-2 mt-4 bg-white rounded-lg shadow px-4 py-2 cursor-pointer">
+                    <input type="checkbox" checked={randomCulprit} onChange={(e) => setRandomCulprit(e.target.checked)} className="w-4 h-4" />
+                    <span className="font-semibold text-gray-700">🎲 Random culprit</span>
+                    <span className="text-sm text-gray-500">(anyone could be guilty, so you can't memorise the answer)</span>
+                </label>
+            </div>
+            {!canAffordCase && (
+                <p className="text-center text-sm text-red-600 mb-4">You need at least {Math.abs(WRONG_ACCUSATION_PENALTY)} PP to take on a case.</p>
+            )}
+            <CaseGeneratorPanel
+                disabled={!canAffordCase}
+                onGenerate={(gameCase) => {
+                    setGeneratedCase(gameCase);
+                    startGame(gameCase);
+                }}
+            />
+            <div className="space-y-4">
+                {browsableCases.map(c => {
+                    const status = getCaseStatus(history, c.id);
+                    const difficulty = getCaseDifficulty(c);
+                    const randomizable = canRandomizeCulprit(c);
+                    return (
+                        <div key={c.id} className="bg-white p-6 rounded-lg shadow-lg flex flex-col sm:flex-row sm:items-center gap-4">
+                            <div className="flex-1">
+                                <div className="flex flex-wrap items-center gap-2 mb-1">
+                                    <h3 className="text-xl font-bold text-gray-800">{c.title}</h3>
+                                    <span className={`text-xs font-semibold rounded-full px-2 py-0.5 capitalize ${DIFFICULTY_STYLES[difficulty]}`}>{difficulty}</span>
+                                    <span className={`text-xs font-semibold rounded-full px-2 py-0.5 ${STATUS_LABELS[status].className}`}>{STATUS_LABELS[status].label}</span>
+                                </div>
+                                <p className="text-gray-600 text-sm">{c.story}</p>
+                                <p className="text-xs text-gray-500 mt-1">
+                                    {c.suspects.length} suspects · {c.clues.length} clues
+                                    {randomCulprit && !randomizable && ' · the clues only solve this case with its usual culprit'}
+                                </p>
+                            </div>
+                            <Button onClick={() => startGame(c)} disabled={!canAffordCase} className="shrink-0">Investigate</Button>
+                        </div>
+                    );
+                })}
+            </div>
         </div>
     );
     
     const renderGame = () => {
       const remainingSuspects = suspects.filter(s => s.probability > 0);
       const isDownToTwo = remainingSuspects.length === 2;
+      const current = suspects.map(s => s.probability);
+      const unrevealed = currentCase.clues.filter(c => !revealedClues.some(r => r.id === c.id));
+      const unusedClues = gameClues.length - revealedClues.length;
 
       return (
         <div className="flex flex-col lg:flex-row gap-8">
@@ -129,34 +181,52 @@ const FindTheThief: React.FC<FindTheThiefProps> = ({ goBack, updatePoints, earnB
                   <h3 className="font-bold text-xl mb-4 border-b pb-2">Clues</h3>
                   <ul className="space-y-3">
                       {revealedClues.map(clue => (
-                          <li key={clue.id} className="text-gray-700 animate-fade-in-down">🕵️‍♂️ {clue.text}</li>
+                          <li key={clue.id} className="text-gray-700 animate-fade-in-down">
+                              🕵️‍♂️ {clue.text}
+                              {getClueReliability(clue) < 1 && (
+                                <span className="block text-xs text-amber-700 ml-7">⚠️ Only {(getClueReliability(clue) * 100).toFixed(0)}% reliable</span>
+                              )}
+                          </li>
                       ))}
-                      {revealedClues.length < gameClues.length && (
-                        <li className="text-gray-400">Next clue is waiting...</li>
-                      )}
+                      {revealedClues.length === 0 && <li className="text-gray-400">No clues yet. Choose one to investigate below.</li>}
                   </ul>
-                  <div className="mt-6">
-                       <Button onClick={revealNextClue} disabled={isAccusationTime}>
-                          Reveal Next Clue
-                       </Button>
-                  </div>
+                  <p className="text-sm text-gray-500 mt-4">Uncertainty now: <strong>{entropy(current).toFixed(2)} bits</strong></p>
+                  {unrevealed.length > 0 && gameState === 'playing' && (
+                    <div className="mt-4 space-y-3">
+                        <h4 className="font-semibold text-gray-700">Investigate next</h4>
+                        {unrevealed.map(template => {
+                            const forecast = forecastClue(currentCase, current, template);
+                            return (
+                                <div key={template.id} className="border rounded-lg p-3 text-sm">
+                                    <p className="font-semibold capitalize">{describeAttribute(template.attribute)}</p>
+                                    <p className="text-gray-600">Expected suspects left: <strong>{forecast.expectedSuspectsRemaining.toFixed(1)}</strong></p>
+                                    <p className="text-gray-600">Expected uncertainty after: <strong>{forecast.expectedEntropy.toFixed(2)} bits</strong> (gain {forecast.informationGain.toFixed(2)})</p>
+                                    {getClueReliability(template) < 1 && <p className="text-xs text-amber-700">⚠️ {(getClueReliability(template) * 100).toFixed(0)}% reliable</p>}
+                                    <Button onClick={() => revealClue(template.id)} variant="secondary" className="mt-2 text-sm">Investigate</Button>
+                                </div>
+                            );
+                        })}
+                    </div>
+                  )}
               </div>
               <div className="lg:w-2/3">
-                  <h3 className="font-bold text-xl mb-4">{isAccusationTime ? 'Make Your Accusation!' : 'The Suspects'}</h3>
+                  <h3 className="font-bold text-xl mb-1">{allCluesRevealed ? 'Make Your Accusation!' : 'The Suspects'}</h3>
+                  <p className="text-sm text-gray-600 mb-4">
+                      You can accuse at any time. A correct accusation pays {CORRECT_ACCUSATION_REWARD} PP × (2 − how likely that suspect looks), plus {UNUSED_CLUE_BONUS} PP for each clue you didn't need. A wrong one costs {Math.abs(WRONG_ACCUSATION_PENALTY)} PP.
+                  </p>
                   
-                  {isDownToTwo && !isAccusationTime && (
+                  {isDownToTwo && !allCluesRevealed && (
                     <div className="text-center mb-4 p-3 bg-blue-100 rounded-lg animate-fade-in border border-blue-200" role="alert">
-                        <p className="font-semibold text-blue-800">You've narrowed it down to two suspects! The final clue will be decisive.</p>
+                        <p className="font-semibold text-blue-800">Only two suspects are left! Check which of them the remaining clues point to.</p>
                     </div>
                   )}
 
                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                      {suspects.map(s => (
-                          <div 
-                              key={s.id} 
-                              onClick={isAccusationTime ? () => makeAccusation(s) : undefined}
-                              className={`bg-white p-4 rounded-lg shadow-md transition-all duration-300 ${isAccusationTime ? 'cursor-pointer hover:shadow-xl hover:ring-2 hover:ring-red-500' : ''}`}
-                          >
+                      {suspects.map(s => {
+                          const reward = getAccusationReward(s.probability, unusedClues);
+                          const accusationValue = s.probability * reward + (1 - s.probability) * WRONG_ACCUSATION_PENALTY;
+                          return (
+                          <div key={s.id} className="bg-white p-4 rounded-lg shadow-md transition-all duration-300">
                               <div className="flex items-center space-x-4">
                                   <span className="text-4xl">{s.avatar}</span>
                                   <div>
@@ -171,8 +241,15 @@ const FindTheThief: React.FC<FindTheThiefProps> = ({ goBack, updatePoints, earnB
                                   ></div>
                               </div>
                               <p className="text-right text-sm font-bold mt-1">{(s.probability * 100).toFixed(1)}%</p>
+                              {isAccusationTime && s.probability > 0 && (
+                                <div className="flex items-center justify-between mt-2 text-xs text-gray-600">
+                                    <span>Pays {reward} PP · expected {accusationValue >= 0 ? '+' : ''}{accusationValue.toFixed(0)} PP</span>
+                                    <button onClick={() => makeAccusation(s)} className="bg-red-500 text-white font-bold rounded-lg px-3 py-1 hover:bg-red-600">Accuse</button>
+                                </div>
+                              )}
                           </div>
-                      ))}
+                          );
+                      })}
                   </div>
               </div>
           </div>
@@ -186,16 +263,17 @@ const FindTheThief: React.FC<FindTheThiefProps> = ({ goBack, updatePoints, earnB
                 <h1 className="text-4xl font-bold text-center text-blue-500">Find the Thief</h1>
                 <div className="flex items-center space-x-2">
                     <Button onClick={() => setShowLearnMode(true)} variant="ghost">🎓 Learn Mode</Button>
-                    {gameState !== 'intro' && (
-                        <Button onClick={startGame} variant="ghost" title="Start a New Game">↩ New Game</Button>
-                    )}
+                    {gameState !== 'intro' && (<>
+                        <Button onClick={() => startGame()} variant="ghost" title="Start a New Game">↩ New Game</Button>
+                        <Button onClick={() => setGameState('intro')} variant="ghost" title="Choose a Different Case">📂 Cases</Button>
+                    </>)}
                 </div>
             </div>
 
             {gameState === 'intro' && renderIntro()}
             {(gameState === 'playing' || gameState === 'revealed') && renderGame()}
 
-            <Modal isOpen={gameState === 'revealed'} onClose={startGame} title="The Verdict is In!">
+            <Modal isOpen={gameState === 'revealed'} onClose={() => startGame()} title="The Verdict is In!">
                 {result && (
                     <div className="text-center">
                         {result.correct ? (
@@ -203,35 +281,38 @@ const FindTheThief: React.FC<FindTheThiefProps> = ({ goBack, updatePoints, earnB
                                 <span className="text-7xl block mb-4">🎉</span>
                                 <h3 className="text-3xl font-bold text-green-600">Correct!</h3>
                                 <p className="text-lg mt-2">You identified <strong>{result.guilty.name}</strong> as the thief. Excellent detective work!</p>
-                                <p className="text-gray-600 mt-1">You earned 250 Probability Points!</p>
+                                <p className="text-gray-600 mt-1">You earned {result.reward} Probability Points!</p>
                             </>
                         ) : (
                              <>
                                 <span className="text-7xl block mb-4">😥</span>
                                 <h3 className="text-3xl font-bold text-red-600">Incorrect!</h3>
                                 <p className="text-lg mt-2">The real thief was <strong>{result.guilty.name}</strong>.</p>
-                                <p className="text-gray-600 mt-1">You lost 50 Probability Points. Better luck next time!</p>
+                                <p className="text-gray-600 mt-1">You lost {Math.abs(WRONG_ACCUSATION_PENALTY)} Probability Points. Better luck next time!</p>
                             </>
                         )}
-                        <Button onClick={startGame} className="mt-6">Play Again</Button>
+                        <div className="flex justify-center space-x-4 mt-6">
+                            <Button onClick={() => startGame()}>Play Again</Button>
+                            <Button onClick={() => setGameState('intro')} variant="secondary">Choose Another Case</Button>
+                        </div>
                     </div>
                 )}
             </Modal>
             
-            <Modal isOpen={showLearnMode} onClose={() => setShowLearnMode(false)} title="🎓 Learn Mode: Conditional Probability">
+            <Modal isOpen={showLearnMode} onClose={() => setShowLearnMode(false)} title="🎓 Learn Mode: Bayes' Theorem">
                  <div className="space-y-4">
                     <p><strong>Conditional Probability</strong> is the probability of an event happening, given that another event has already occurred.</p>
-                    <p>In this game, each new clue provides an event that has occurred. We use this information to update the probabilities of who the thief is.</p>
+                    <p>Each clue is new evidence. <strong>Bayes' theorem</strong> tells us how to update the probability of each suspect being the thief:</p>
                     <div className="bg-gray-100 p-4 rounded-lg">
-                        <p className="font-semibold">Here's how it works:</p>
+                        <p className="font-mono text-center">posterior = prior × likelihood ÷ (sum of prior × likelihood)</p>
                         <ul className="list-disc list-inside mt-2 space-y-1 text-sm">
-                            <li><strong>Start:</strong> Before any clues, every suspect is equally likely. If there are 5 suspects, each has a 1 in 5 (or 20%) chance. This is the <strong>prior probability</strong>.</li>
-                            <li><strong>Clue 1:</strong> A clue eliminates some suspects. For example, "The thief had kitchen access". The total probability (100%) is now redistributed only among the suspects who had access.</li>
-                            <li><strong>Update:</strong> The likelihood of the remaining suspects increases, because the "possibility space" has shrunk. The new probability is the <strong>posterior probability</strong>.</li>
-                            <li><strong>Repeat:</strong> Each new clue narrows the field further, allowing you to pinpoint the most likely culprit based on the evidence provided.</li>
+                            <li><strong>Prior:</strong> how likely a suspect was before the clue. Some suspects start out more likely than others, for example because they were closer to the scene.</li>
+                            <li><strong>Likelihood:</strong> the chance of hearing this clue if that suspect were the thief. If a witness is 80% reliable, a suspect who matches the clue gets 0.8; one who doesn't gets the 20% the witness is wrong, shared among the other possible answers.</li>
+                            <li><strong>Normalise:</strong> divide by the total so the probabilities add up to 100% again. The posterior becomes the prior for the next clue.</li>
                         </ul>
                     </div>
-                    <p>This is the same kind of reasoning detectives, doctors, and scientists use every day to make decisions based on new evidence!</p>
+                    <p>You choose which clue to investigate. A good detective picks the clue that is expected to remove the most <strong>uncertainty</strong>, measured by <strong>entropy</strong> in bits: 0 bits means you're certain, and n equally likely suspects is log₂(n) bits. The expected entropy after a clue averages over everything the clue might say, weighted by how likely each answer is right now.</p>
+                    <BayesWalkthrough gameCase={currentCase} clues={gameState === 'intro' ? [] : revealedClues} />
                      <div className="mt-6 p-4 bg-blue-50 border-l-4 border-blue-400">
                         <h4 className="font-bold text-blue-800">Try This at Home!</h4>
                         <p className="text-blue-700">Take a standard deck of 52 cards. What's the probability of drawing a King? (4/52). Now, what's the probability of drawing a King GIVEN that you know the card is a face card (Jack, Queen, King)? The probability changes!</p>
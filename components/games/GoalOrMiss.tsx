@@ -1,23 +1,113 @@
-import React, { useState } from 'react';
-import { BadgeType, GoalTarget } from '../../types';
-import { GOAL_TARGETS } from '../../constants';
+import React, { useMemo, useState } from 'react';
+import { Game, GameEvent, GoalTarget, KeeperDive } from '../../types';
 import Button from '../ui/Button';
 import Modal from '../ui/Modal';
 import { playSound } from '../../utils/sounds';
+import { useLearnMode } from '../../utils/router';
+import { emitGameEvent, getPointsChange } from '../../utils/gameEvents';
+import { bernoulli, weightedPick } from '../../utils/random';
+import { canCoverStake } from '../../utils/economy';
+import { expectedValue, successFailureOutcomes } from '../../utils/probability';
+import { SHOOTOUT_ROUNDS, ShootoutKick, getNextShooter, getShootoutScore, getShootoutWinProbability, getShootoutWinner } from '../../utils/shootout';
+import ShootoutPanel from './ShootoutPanel';
+import { CONFIDENCE_Z, SKILL_SPREAD, getHiddenAccuracy, getSkillEstimates } from '../../utils/skill';
+import SkillEstimatePanel from './SkillEstimatePanel';
+import { KEEPER_DIVES, KEEPER_REACH, KeeperMix, getAdaptiveKeeperMix, getGoalChance, getGoalChanceAgainst, getPayoffMatrix, getPenaltyEquilibrium, getTargetSide, normaliseKeeperMix } from '../../utils/goalkeeper';
 
 interface GoalOrMissProps {
   goBack: () => void;
-  updatePoints: (amount: number) => void;
-  earnBadge: (badge: BadgeType) => void;
+  currentPoints: number;
+  targets: GoalTarget[];
+  profileId: string;
+  history: GameEvent[];
 }
 
-type GameState = 'ready' | 'aiming' | 'shooting' | 'result';
+type GameState = 'ready' | 'aiming' | 'shooting' | 'result' | 'cpu-kick' | 'shootout-over';
+type PlayMode = 'single' | 'shootout' | 'skill';
+type KeeperMode = 'none' | 'fixed' | 'adaptive' | 'equilibrium';
 
-const GoalOrMiss: React.FC<GoalOrMissProps> = ({ goBack, updatePoints, earnBadge }) => {
+const KEEPER_MODE_LABELS: Record<KeeperMode, string> = {
+  none: 'No keeper',
+  fixed: 'Fixed mix',
+  adaptive: 'Adaptive',
+  equilibrium: 'Equilibrium',
+};
+
+const KEEPER_POSITIONS: Record<KeeperDive, string> = { left: '20%', center: '50%', right: '80%' };
+
+const formatPercent = (p: number) => `${(p * 100).toFixed(0)}%`;
+
+// The CPU's chance of scoring each of its shootout kicks
+const CPU_SCORE_CHANCE = 0.7;
+
+const GoalOrMiss: React.FC<GoalOrMissProps> = ({ goBack, currentPoints, targets, profileId, history }) => {
   const [gameState, setGameState] = useState<GameState>('ready');
   const [selectedTarget, setSelectedTarget] = useState<GoalTarget | null>(null);
-  const [result, setResult] = useState<{ outcome: 'goal' | 'miss'; points: number } | null>(null);
-  const [showLearnMode, setShowLearnMode] = useState(false);
+  const [result, setResult] = useState<{ outcome: 'goal' | 'miss'; points: number; keeperDive?: KeeperDive; saved: boolean } | null>(null);
+  const [showLearnMode, setShowLearnMode] = useLearnMode(Game.GoalOrMiss);
+  const [keeperMode, setKeeperMode] = useState<KeeperMode>('none');
+  const [fixedWeights, setFixedWeights] = useState([30, 40, 30]);
+  const [shotSides, setShotSides] = useState<KeeperDive[]>([]); // where this player has aimed, for the adaptive keeper
+  const [keeperDive, setKeeperDive] = useState<KeeperDive | null>(null);
+  const [playMode, setPlayMode] = useState<PlayMode>('single');
+  const [kicks, setKicks] = useState<ShootoutKick[]>([]);
+  const [winHistory, setWinHistory] = useState<number[]>([]);
+  const [shootoutChance, setShootoutChance] = useState(0); // the chance the tracker assumes for the player's next kicks
+
+  const equilibrium = useMemo(() => getPenaltyEquilibrium(targets), [targets]);
+  const keeperMix: KeeperMix =
+    keeperMode === 'fixed' ? normaliseKeeperMix(fixedWeights) :
+    keeperMode === 'adaptive' ? getAdaptiveKeeperMix(shotSides) :
+    equilibrium.columnStrategy as KeeperMix;
+  // Skill practice measures the shooter alone, so the keeper sits it out.
+  const hasKeeper = keeperMode !== 'none' && playMode !== 'skill';
+  const skillEstimates = useMemo(() => getSkillEstimates(history, targets), [history, targets]);
+  const shotChance = (target: GoalTarget) => hasKeeper ? getGoalChanceAgainst(target, keeperMix) : target.probability;
+  const shootoutWinner = getShootoutWinner(kicks);
+  // The keeper can't be changed mid-shootout and the adaptive keeper stops
+  // learning, so the keeper mix stays as it was when the shootout started.
+  const shootoutInProgress = playMode === 'shootout' && !shootoutWinner;
+
+  // Before the first kick the tracker assumes the player's best aim against
+  // the keeper; after each kick, the aim they actually took. Whatever mode
+  // came before, a shootout always has the chosen keeper in goal.
+  // A shootout can't stop half-way, so its stake is checked once at the
+  // start: enough to miss every regulation kick at the costliest target.
+  const shootoutStake = SHOOTOUT_ROUNDS * Math.max(...targets.map(t => Math.abs(t.penalty)));
+  const canAffordShootout = canCoverStake(currentPoints, shootoutStake);
+
+  const startShootout = () => {
+    if (!canAffordShootout) return;
+    const chance = Math.max(...targets.map(t => keeperMode !== 'none' ? getGoalChanceAgainst(t, keeperMix) : t.probability));
+    setPlayMode('shootout');
+    setKicks([]);
+    setShootoutChance(chance);
+    setWinHistory([getShootoutWinProbability([], chance, CPU_SCORE_CHANCE)]);
+    setSelectedTarget(null);
+    setResult(null);
+    setKeeperDive(null);
+    setGameState('ready');
+  };
+
+  const recordKick = (kick: ShootoutKick, chance: number) => {
+    const next = [...kicks, kick];
+    setKicks(next);
+    setShootoutChance(chance);
+    setWinHistory(prev => [...prev, getShootoutWinProbability(next, chance, CPU_SCORE_CHANCE)]);
+    return next;
+  };
+
+  const takeCpuKick = () => {
+    setGameState('cpu-kick');
+    setKeeperDive(null);
+    playSound('swoosh');
+    const scored = bernoulli(CPU_SCORE_CHANCE);
+    setTimeout(() => {
+      playSound(scored ? 'thud' : 'success');
+      const next = recordKick({ side: 'cpu', scored }, shootoutChance);
+      setGameState(getShootoutWinner(next) ? 'shootout-over' : 'ready');
+    }, 1200);
+  };
 
   const handleSelectTarget = (target: GoalTarget) => {
     if (gameState === 'ready' || gameState === 'aiming') {
@@ -26,41 +116,70 @@ const GoalOrMiss: React.FC<GoalOrMissProps> = ({ goBack, updatePoints, earnBadge
     }
   };
 
+  // Shootout kicks were paid for when it started, so they are never blocked.
+  const canAffordShot = !selectedTarget || playMode === 'shootout' || canCoverStake(currentPoints, selectedTarget.penalty);
+
   const handleTakeShot = () => {
-    if (!selectedTarget) return;
+    if (!selectedTarget || !canAffordShot) return;
 
     setGameState('shooting');
     playSound('swoosh');
-    const isGoal = Math.random() < selectedTarget.probability;
+    const dive = hasKeeper ? weightedPick(KEEPER_DIVES.map((side, i) => ({ side, probability: keeperMix[i] }))).side : undefined;
+    const accuracy = playMode === 'skill' ? getHiddenAccuracy(profileId, selectedTarget) : selectedTarget.probability;
+    const chance = dive ? getGoalChance(selectedTarget, dive) : accuracy;
+    const onTarget = bernoulli(accuracy);
+    // A shot the keeper dives towards has to beat the keeper as well as be on target.
+    const saved = onTarget && dive === getTargetSide(selectedTarget) && bernoulli(KEEPER_REACH);
+    const isGoal = onTarget && !saved;
+    setKeeperDive(dive ?? null);
 
     setTimeout(() => {
-      const pointsChange = isGoal ? selectedTarget.reward : selectedTarget.penalty;
-      updatePoints(pointsChange);
+      const event = emitGameEvent({
+        type: 'goal-shot',
+        targetId: selectedTarget.id,
+        targetName: selectedTarget.name,
+        probability: chance,
+        scored: isGoal,
+        reward: selectedTarget.reward,
+        penalty: selectedTarget.penalty,
+        ...(dive ? { keeperDive: dive } : {}),
+        ...(playMode === 'skill' ? { skill: true } : {}),
+      });
+      if (dive && playMode !== 'shootout') setShotSides(prev => [...prev, getTargetSide(selectedTarget)]);
+      if (playMode === 'shootout') recordKick({ side: 'player', scored: isGoal }, shotChance(selectedTarget));
+      const pointsChange = getPointsChange(event);
 
       if (isGoal) {
         playSound('win');
-        if (selectedTarget.id === 'top-left' || selectedTarget.id === 'top-right') {
-          earnBadge(BadgeType.GoldenBoot);
-        }
       } else {
         playSound('thud');
       }
       
-      setResult({ outcome: isGoal ? 'goal' : 'miss', points: pointsChange });
+      setResult({ outcome: isGoal ? 'goal' : 'miss', points: pointsChange, keeperDive: dive, saved });
       setGameState('result');
     }, 1000); // 1s animation
   };
 
+  const targetEV = (target: GoalTarget) => expectedValue(successFailureOutcomes(target.probability, target.reward, target.penalty));
+  // EV against the keeper as they are set up right now
+  const shotEV = (target: GoalTarget) => expectedValue(successFailureOutcomes(shotChance(target), target.reward, target.penalty));
+  const payoffMatrix = getPayoffMatrix(targets);
+  const bestTarget = targets.reduce((best, t) => targetEV(t) > targetEV(best) ? t : best, targets[0]);
+
+
   const resetGame = () => {
-    setGameState('ready');
     setSelectedTarget(null);
     setResult(null);
+    setKeeperDive(null);
+    if (playMode === 'shootout' && shootoutWinner) {
+      setGameState('shootout-over');
+    } else if (playMode === 'shootout' && getNextShooter(kicks) === 'cpu') {
+      takeCpuKick();
+    } else {
+      setGameState('ready');
+    }
   };
   
-  const calculateEV = (target: GoalTarget) => {
-    return (target.probability * target.reward) + ((1 - target.probability) * target.penalty);
-  };
-
   return (
     <div className="container mx-auto">
       <div className="flex justify-between items-center mb-8">
@@ -69,6 +188,88 @@ const GoalOrMiss: React.FC<GoalOrMissProps> = ({ goBack, updatePoints, earnBadge
         <Button onClick={() => setShowLearnMode(true)} variant="ghost">🎓 Learn Mode</Button>
       </div>
 
+      <div className="bg-white p-4 rounded-lg shadow-md max-w-4xl mx-auto mb-4">
+        <div className="flex flex-wrap items-center gap-2 mb-3">
+          <span className="font-semibold text-gray-700">🏟️ Mode:</span>
+          <button
+            onClick={() => { setPlayMode('single'); setGameState('ready'); }}
+            disabled={gameState === 'shooting' || gameState === 'cpu-kick'}
+            className={`px-3 py-1 rounded-lg text-sm font-semibold ${playMode === 'single' ? 'bg-red-500 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+          >
+            Single shots
+          </button>
+          <button
+            onClick={startShootout}
+            disabled={gameState === 'shooting' || gameState === 'cpu-kick' || !canAffordShootout}
+            className={`px-3 py-1 rounded-lg text-sm font-semibold ${playMode === 'shootout' ? 'bg-red-500 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+          >
+            {playMode === 'shootout' ? '↩ New shootout' : 'Penalty shootout vs CPU'}
+          </button>
+          <button
+            onClick={() => { setPlayMode('skill'); setGameState('ready'); }}
+            disabled={gameState === 'shooting' || gameState === 'cpu-kick'}
+            className={`px-3 py-1 rounded-lg text-sm font-semibold ${playMode === 'skill' ? 'bg-red-500 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+          >
+            Skill practice
+          </button>
+        </div>
+        {!canAffordShootout && (
+          <p className="text-sm text-red-600 -mt-2 mb-3">You need at least {shootoutStake} PP to start a shootout, enough to miss all {SHOOTOUT_ROUNDS} kicks.</p>
+        )}
+        {playMode === 'skill' ? (
+          <p className="text-sm text-gray-600">No keeper in skill practice. Every shot you take is recorded, so the game can estimate how accurate you really are at each target.</p>
+        ) : (
+        <>
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="font-semibold text-gray-700">🧤 Goalkeeper:</span>
+          {(Object.keys(KEEPER_MODE_LABELS) as KeeperMode[]).map(mode => (
+            <button
+              key={mode}
+              onClick={() => setKeeperMode(mode)}
+              disabled={gameState === 'shooting' || shootoutInProgress}
+              className={`px-3 py-1 rounded-lg text-sm font-semibold ${keeperMode === mode ? 'bg-red-500 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+            >
+              {KEEPER_MODE_LABELS[mode]}
+            </button>
+          ))}
+        </div>
+        {keeperMode === 'fixed' && (
+          <div className="flex flex-wrap gap-4 mt-3 text-sm">
+            {KEEPER_DIVES.map((side, i) => (
+              <label key={side} className="capitalize">
+                Dive {side}
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={fixedWeights[i]}
+                  onChange={(e) => setFixedWeights(prev => prev.map((w, j) => j === i ? Number(e.target.value) : w))}
+                  disabled={shootoutInProgress}
+                  className="border border-gray-300 rounded-lg px-2 py-1 w-20 ml-2"
+                />
+              </label>
+            ))}
+          </div>
+        )}
+        {hasKeeper && (
+          <p className="text-sm text-gray-600 mt-2">
+            The keeper dives {KEEPER_DIVES.map((side, i) => `${side} ${formatPercent(keeperMix[i])}`).join(', ')} and stops {formatPercent(KEEPER_REACH)} of shots on the side they dive to.
+            {keeperMode === 'adaptive' && (playMode === 'shootout' ? ' They stop learning during a shootout, so these odds hold for every kick.' : ' They watch where you aim and dive that way more often.')}
+            {keeperMode === 'equilibrium' && ' This is the Nash equilibrium mix: no aim beats it on average.'}
+          </p>
+        )}
+        </>
+        )}
+      </div>
+
+      {playMode === 'skill' && (
+        <SkillEstimatePanel estimates={skillEstimates} getTrueAccuracy={e => getHiddenAccuracy(profileId, e.target)} />
+      )}
+
+      {playMode === 'shootout' && (
+        <ShootoutPanel kicks={kicks} winProbabilities={winHistory} playerChance={shootoutChance} cpuChance={CPU_SCORE_CHANCE} />
+      )}
+
       <div className="bg-white p-6 rounded-lg shadow-lg max-w-4xl mx-auto">
         <div className="relative aspect-[3/2] bg-green-200 border-8 border-white rounded-lg overflow-hidden flex justify-center items-end" style={{ background: 'linear-gradient(to bottom, #86efac, #22c55e)'}}>
           {/* Goal Structure */}
@@ -86,7 +287,7 @@ const GoalOrMiss: React.FC<GoalOrMissProps> = ({ goBack, updatePoints, earnBadge
           <div className="absolute top-0 left-0 w-full h-full grid p-2"
             style={{ gridTemplateAreas: '"top-left top-center top-right" "bottom-left bottom-center bottom-right"', gridTemplateRows: '1fr 1fr', gridTemplateColumns: '1fr 1.5fr 1fr' }}
           >
-            {GOAL_TARGETS.map((target) => (
+            {targets.map((target) => (
               <div
                 key={target.id}
                 style={{ gridArea: target.gridArea }}
@@ -95,18 +296,32 @@ const GoalOrMiss: React.FC<GoalOrMissProps> = ({ goBack, updatePoints, earnBadge
               >
                  <div className="text-center bg-black/50 p-2 rounded-lg opacity-0 group-hover:opacity-100 transition-opacity text-white text-xs">
                     <p className="font-bold">{target.name}</p>
-                    <p>{(target.probability * 100).toFixed(0)}% Chance</p>
+                    {playMode === 'skill' ? (() => {
+                      const estimate = skillEstimates.find(e => e.target.id === target.id);
+                      return <p>{estimate && estimate.attempts > 0 ? `You: ${formatPercent(estimate.interval.estimate)} of ${estimate.attempts}` : 'No shots yet'}</p>;
+                    })() : (
+                      <p>{(shotChance(target) * 100).toFixed(0)}% Chance</p>
+                    )}
                     <p>{target.reward} PP</p>
                  </div>
               </div>
             ))}
           </div>
           
+          {/* Keeper */}
+          {hasKeeper && (
+            <div className="absolute bottom-2 transition-all duration-700 ease-out -translate-x-1/2 text-5xl"
+              style={{ left: keeperDive ? KEEPER_POSITIONS[keeperDive] : '50%' }}
+            >
+              🧤
+            </div>
+          )}
+
           {/* Ball */}
           <div className={`absolute transition-all duration-1000 ease-out transform -translate-x-1/2 -translate-y-1/2 ${gameState === 'shooting' ? 'scale-75' : 'scale-100'}`}
              style={{
-                left: gameState === 'shooting' && selectedTarget ? `calc(${{'top-left': '15%', 'top-center': '50%', 'top-right': '85%', 'bottom-left': '20%', 'bottom-center': '50%', 'bottom-right': '80%'}[selectedTarget.id]})` : '50%',
-                top: gameState === 'shooting' && selectedTarget ? `calc(${{'top-left': '25%', 'top-center': '25%', 'top-right': '25%', 'bottom-left': '75%', 'bottom-center': '75%', 'bottom-right': '75%'}[selectedTarget.id]})` : '95%',
+                left: gameState === 'shooting' && selectedTarget ? `calc(${{'top-left': '15%', 'top-center': '50%', 'top-right': '85%', 'bottom-left': '20%', 'bottom-center': '50%', 'bottom-right': '80%'}[selectedTarget.gridArea]})` : '50%',
+                top: gameState === 'shooting' && selectedTarget ? `calc(${{'top-left': '25%', 'top-center': '25%', 'top-right': '25%', 'bottom-left': '75%', 'bottom-center': '75%', 'bottom-right': '75%'}[selectedTarget.gridArea]})` : '95%',
               }}
           >
             <span className={`text-4xl block transition-transform duration-1000 ${gameState === 'shooting' ? 'rotate-360' : ''}`}>⚽</span>
@@ -118,18 +333,26 @@ const GoalOrMiss: React.FC<GoalOrMissProps> = ({ goBack, updatePoints, earnBadge
                 gameState === 'ready' ? 'Choose where to aim' :
                 gameState === 'aiming' ? `Aiming for: ${selectedTarget?.name}` :
                 gameState === 'shooting' ? 'Taking the shot...' :
+                gameState === 'cpu-kick' ? 'The CPU steps up to take its kick...' :
+                gameState === 'shootout-over' ? 'The shootout is over' :
                 'Result'
             }</h2>
             <Button 
                 onClick={handleTakeShot}
-                disabled={gameState !== 'aiming'}
+                disabled={gameState !== 'aiming' || !canAffordShot}
             >
                 Take the Shot!
             </Button>
+            {gameState === 'aiming' && selectedTarget && hasKeeper && (
+                <p className="text-sm text-gray-600 mt-2">Against this keeper: {formatPercent(shotChance(selectedTarget))} chance to score · EV {shotEV(selectedTarget).toFixed(1)} PP</p>
+            )}
+            {gameState === 'aiming' && !canAffordShot && (
+                <p className="text-sm text-red-600 mt-2">You need at least {Math.abs(selectedTarget!.penalty)} PP to risk this shot.</p>
+            )}
         </div>
       </div>
       
-      <Modal isOpen={gameState === 'result'} onClose={resetGame} title={result?.outcome === 'goal' ? 'GOOOOAL!' : 'Ooh, a Miss!'}>
+      <Modal isOpen={gameState === 'result'} onClose={resetGame} title={result?.outcome === 'goal' ? 'GOOOOAL!' : result?.saved ? 'Saved!' : 'Ooh, a Miss!'}>
         {result && (
             <div className="text-center">
                 {result.outcome === 'goal' ? (
@@ -140,16 +363,39 @@ const GoalOrMiss: React.FC<GoalOrMissProps> = ({ goBack, updatePoints, earnBadge
                     </>
                 ) : (
                      <>
-                        <span className="text-7xl block mb-4 animate-shake">💨😥</span>
-                        <h3 className="text-3xl font-bold text-red-600">So Close!</h3>
+                        <span className="text-7xl block mb-4 animate-shake">{result.saved ? '🧤😥' : '💨😥'}</span>
+                        <h3 className="text-3xl font-bold text-red-600">{result.saved ? 'The Keeper Got It!' : 'So Close!'}</h3>
                         <p className="text-gray-600 mt-1">You lost {Math.abs(result.points)} Probability Points.</p>
                     </>
                 )}
-                <Button onClick={resetGame} className="mt-6">Play Again</Button>
+                {result.keeperDive && <p className="text-sm text-gray-500 mt-2">The keeper dived {result.keeperDive}.</p>}
+                <Button onClick={resetGame} className="mt-6">
+                  {playMode !== 'shootout' ? 'Play Again' : shootoutWinner ? 'See the Result' : "CPU's Turn"}
+                </Button>
             </div>
         )}
       </Modal>
 
+      <Modal isOpen={gameState === 'shootout-over'} onClose={() => { setPlayMode('single'); setGameState('ready'); }} title="🏆 Shootout Over">
+        {(() => {
+          const score = getShootoutScore(kicks);
+          return (
+            <div className="text-center">
+              <span className="text-7xl block mb-4">{shootoutWinner === 'player' ? '🏆' : '😥'}</span>
+              <h3 className={`text-3xl font-bold ${shootoutWinner === 'player' ? 'text-green-600' : 'text-red-600'}`}>
+                {shootoutWinner === 'player' ? 'You win the shootout!' : 'The CPU wins the shootout.'}
+              </h3>
+              <p className="text-lg mt-2">Final score {score.player} – {score.cpu}{score.playerKicks > SHOOTOUT_ROUNDS ? ' after sudden death' : ''}.</p>
+              <p className="text-gray-600 mt-1">Before the first kick your chance of winning was {formatPercent(winHistory[0] ?? 0)}. Look at the tracker to see how each kick moved it.</p>
+              <div className="flex justify-center space-x-4 mt-6">
+                <Button onClick={startShootout} disabled={!canAffordShootout}>New Shootout</Button>
+                <Button onClick={() => { setPlayMode('single'); setGameState('ready'); }} variant="secondary">Single Shots</Button>
+              </div>
+            </div>
+          );
+        })()}
+      </Modal>
+
       <Modal isOpen={showLearnMode} onClose={() => setShowLearnMode(false)} title="🎓 Learn Mode: Success Probability">
         <div className="space-y-4">
           <p><strong>Success Probability</strong> is simply the chance that a desired outcome will occur. In sports, this is everywhere!</p>
@@ -162,16 +408,48 @@ const GoalOrMiss: React.FC<GoalOrMissProps> = ({ goBack, updatePoints, earnBadge
           <p>We can even calculate the <strong>Expected Value (EV)</strong> for each shot, just like in the other games:</p>
           <p className="font-semibold">EV = (Success Chance × Reward) + (Failure Chance × Penalty)</p>
           <div className="space-y-2">
-            {GOAL_TARGETS.map(t => (
+            {targets.map(t => (
                 <div key={t.id} className="text-sm bg-gray-50 p-2 rounded">
-                    <strong>{t.name}:</strong> ({t.probability.toFixed(2)} × {t.reward}) + ({(1 - t.probability).toFixed(2)} × {t.penalty}) = <span className="font-bold">{calculateEV(t).toFixed(2)} PP</span>
+                    <strong>{t.name}:</strong> ({t.probability.toFixed(2)} × {t.reward}) + ({(1 - t.probability).toFixed(2)} × {t.penalty}) = <span className="font-bold">{targetEV(t).toFixed(2)} PP</span>
                 </div>
             ))}
           </div>
-          <p>The shot with the highest EV is, over many attempts, the most profitable choice. Does this match your intuition?</p>
+          <p>The shot with the highest EV (here, <strong>{bestTarget.name}</strong>) is, over many attempts, the most profitable choice. Does this match your intuition?</p>
+
+          <h3 className="text-xl font-bold text-gray-800 pt-2">With a Goalkeeper: Game Theory</h3>
+          <p>A keeper changes everything, because now your best aim depends on what the keeper does, and the keeper's best dive depends on what you do. If the keeper dives the way you shoot, they stop {formatPercent(KEEPER_REACH)} of shots. This <strong>payoff matrix</strong> shows your EV for each aim (rows) against each dive (columns):</p>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500"><th>Aim</th>{KEEPER_DIVES.map(side => <th key={side} className="capitalize">Dive {side}</th>)}<th>Your Nash mix</th></tr>
+            </thead>
+            <tbody>
+              {targets.map((t, i) => (
+                <tr key={t.id} className={equilibrium.rowStrategy[i] > 0.001 ? 'font-semibold text-indigo-700' : ''}>
+                  <td>{t.name}</td>
+                  {payoffMatrix[i].map((ev, j) => <td key={j}>{ev.toFixed(1)}</td>)}
+                  <td>{formatPercent(equilibrium.rowStrategy[i])}</td>
+                </tr>
+              ))}
+              <tr className="border-t text-gray-600">
+                <td>Keeper's Nash mix</td>
+                {equilibrium.columnStrategy.map((q, j) => <td key={j}>{formatPercent(q)}</td>)}
+                <td></td>
+              </tr>
+            </tbody>
+          </table>
+          <p>If either player always picks the same thing, the other can exploit it. At the <strong>Nash equilibrium</strong> both players mix their choices so that the other can't gain by changing: you aim using the mix above, the keeper dives using theirs, and your EV is <strong>{equilibrium.value.toFixed(1)} PP</strong> per shot whatever you pick from your mix. Try the "Adaptive" keeper: if you keep aiming the same way, watch them catch on!</p>
+
+          <h3 className="text-xl font-bold text-gray-800 pt-2">Penalty Shootouts: Probability That Changes</h3>
+          <p>In a shootout each side takes {SHOOTOUT_ROUNDS} kicks, then sudden death. If you score a fraction p of your kicks and the CPU scores q, the chance of winning from any score can be worked out exactly: add up every way the remaining kicks could go (a <strong>binomial distribution</strong> for each side) and, for a tie, add the chance of winning sudden death, which is p(1 − q) ÷ (p(1 − q) + (1 − p)q). Each kick changes the score, so the chance of winning jumps up or down, but on average it stays where it was before the kick.</p>
+
+          <h3 className="text-xl font-bold text-gray-800 pt-2">Skill Practice: Estimating From Data</h3>
+          <p>Real players aren't equally good at every shot. In skill practice your true chance of scoring each target is hidden (it's within {formatPercent(SKILL_SPREAD)} of the listed chance), so the only way to learn it is to shoot and count. Your <strong>experimental probability</strong>, goals ÷ shots, is an <strong>estimate</strong> of the true one.</p>
+          <p>An estimate from a few shots can be far off, so statisticians give a <strong>95% confidence interval</strong> as well: a range built so that, if you repeated the whole experiment many times, 95% of the ranges would contain the true value. This game uses the <strong>Wilson interval</strong>, with z = {CONFIDENCE_Z}:</p>
+          <p className="font-semibold">centre = (p̂ + z²/2n) ÷ (1 + z²/n), width either side = z ÷ (1 + z²/n) × √(p̂(1 − p̂)/n + z²/4n²)</p>
+          <p>where p̂ is your success rate and n is how many shots you've taken. The width shrinks roughly like 1/√n: to halve it you need about four times as many shots. This is <strong>frequentist</strong> estimation: the true accuracy is a fixed number, and it's the interval that changes from one experiment to the next.</p>
           <div className="mt-6 p-4 bg-blue-50 border-l-4 border-blue-400">
             <h4 className="font-bold text-blue-800">Try This at Home!</h4>
-            <p className="text-blue-700">Set up a target (like a bucket or a hoop). Take 10 shots from an "easy" distance and 10 shots from a "hard" distance. Record your success rate for each. This is your personal experimental probability for those two tasks!</p>
+            <p className="text-blue-700">Set up a target (like a bucket or a hoop). Take 10 shots from an "easy" distance and 10 shots from a "hard" distance. Record your success rate for each. This is your personal experimental probability for those two tasks! Skill practice does the same thing on screen, and shows how sure you can be of the result.</p>
           </div>
         </div>
       </Modal>
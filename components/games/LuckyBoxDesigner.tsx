@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { CustomLuckyBox, LuckyBoxItem } from '../../types';
+import { LUCKY_BOX_RARITIES } from '../../constants';
+import Button from '../ui/Button';
+import { expectedValue, netExpectedValue, variance, standardDeviation } from '../../utils/probability';
+import { validateLuckyBox } from '../../utils/contentValidation';
+import { playSound } from '../../utils/sounds';
+
+interface LuckyBoxDesignerProps {
+  designerName: string;
+  onSave: (box: CustomLuckyBox) => void;
+}
+
+// Chances are typed as percentages, which is how students think about them.
+interface DraftItem {
+  name: string;
+  value: number;
+  percent: number;
+  rarity: LuckyBoxItem['rarity'];
+}
+
+const BOX_COLORS = ['bg-pink-400', 'bg-teal-400', 'bg-orange-400', 'bg-sky-400', 'bg-lime-500', 'bg-purple-400'];
+const MAX_ITEMS = 8;
+const MAX_NAME_LENGTH = 30;
+
+// Namespaced so a custom box never shares an id with a content pack's box
+const createCustomBoxId = () => `custom-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const newItem = (): DraftItem => ({ name: '', value: 0, percent: 0, rarity: 'common' });
+
+const LuckyBoxDesigner: React.FC<LuckyBoxDesignerProps> = ({ designerName, onSave }) => {
+  const [name, setName] = useState('');
+  const [price, setPrice] = useState(100);
+  const [color, setColor] = useState(BOX_COLORS[0]);
+  const [items, setItems] = useState<DraftItem[]>([newItem(), newItem()]);
+  const [savedName, setSavedName] = useState<string | null>(null);
+
+  const boxItems: LuckyBoxItem[] = items.map(item => ({
+    name: item.name.trim(),
+    value: item.value,
+    probability: item.percent / 100,
+    rarity: item.rarity,
+  }));
+  const totalPercent = items.reduce((sum, item) => sum + item.percent, 0);
+  const box: CustomLuckyBox = { id: '', name: name.trim(), price, color, items: boxItems, designedBy: designerName };
+
+  const problems = [
+    ...(box.name === '' ? ['Give your box a name.'] : []),
+    ...validateLuckyBox({ ...box, name: box.name || 'Untitled' }),
+  ];
+
+  const ev = expectedValue(boxItems);
+  const profit = netExpectedValue(boxItems, price);
+
+  const updateItem = (index: number, change: Partial<DraftItem>) => {
+    setSavedName(null);
+    setItems(prev => prev.map((item, i) => i === index ? { ...item, ...change } : item));
+  };
+
+  const save = () => {
+    if (problems.length > 0) return;
+    playSound('success');
+    onSave({ ...box, id: createCustomBoxId() });
+    setSavedName(box.name);
+    setName('');
+    setItems([newItem(), newItem()]);
+  };
+
+  const inputClasses = 'border border-gray-300 rounded-lg px-2 py-1 w-full';
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="bg-white rounded-lg shadow-xl p-6 lg:col-span-2">
+        <h2 className="text-2xl font-bold text-gray-800">🛠️ Design Your Own Box</h2>
+        <p className="text-gray-600 mb-4">Choose the prizes, their chances and a price. Can you make a box that's perfectly fair? Or one that secretly favours the shop?</p>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-4">
+          <label className="sm:col-span-2 text-sm font-semibold text-gray-700">
+            Box name
+            <input value={name} maxLength={MAX_NAME_LENGTH} onChange={(e) => { setName(e.target.value); setSavedName(null); }} placeholder="Mystery Box" className={inputClasses} />
+          </label>
+          <label className="text-sm font-semibold text-gray-700">
+            Price (PP)
+            <input type="number" min="1" value={price} onChange={(e) => { setPrice(Number(e.target.value)); setSavedName(null); }} className={inputClasses} />
+          </label>
+        </div>
+
+        <div className="flex space-x-2 mb-6">
+          {BOX_COLORS.map(c => (
+            <button key={c} onClick={() => setColor(c)} className={`w-8 h-8 rounded-full ${c} ${c === color ? 'ring-4 ring-indigo-300' : ''}`} aria-label={`Use colour ${c.replace('bg-', '')}`}></button>
+          ))}
+        </div>
+
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-600">
+              <th className="pb-2 pr-2">Item</th>
+              <th className="pb-2 pr-2 w-24">Value (PP)</th>
+              <th className="pb-2 pr-2 w-24">Chance (%)</th>
+              <th className="pb-2 pr-2 w-32">Rarity</th>
+              <th className="pb-2 w-8"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {items.map((item, index) => (
+              <tr key={index}>
+                <td className="pr-2 py-1"><input value={item.name} onChange={(e) => updateItem(index, { name: e.target.value })} placeholder={`Prize ${index + 1}`} className={inputClasses} /></td>
+                <td className="pr-2 py-1"><input type="number" min="0" value={item.value} onChange={(e) => updateItem(index, { value: Number(e.target.value) })} className={inputClasses} /></td>
+                <td className="pr-2 py-1"><input type="number" min="0" max="100" step="any" value={item.percent} onChange={(e) => updateItem(index, { percent: Number(e.target.value) })} className={inputClasses} /></td>
+                <td className="pr-2 py-1">
+                  <select value={item.rarity} onChange={(e) => updateItem(index, { rarity: e.target.value as LuckyBoxItem['rarity'] })} className={inputClasses}>
+                    {LUCKY_BOX_RARITIES.map(r => <option key={r} value={r}>{r}</option>)}
+                  </select>
+                </td>
+                <td className="py-1">
+                  <button onClick={() => setItems(prev => prev.filter((_, i) => i !== index))} disabled={items.length <= 1} className="text-gray-400 hover:text-red-500 disabled:opacity-30" aria-label="Remove item">✕</button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="flex justify-between items-center mt-2">
+          <Button onClick={() => setItems(prev => [...prev, newItem()])} variant="ghost" disabled={items.length >= MAX_ITEMS}>+ Add item</Button>
+          <span className={`text-sm font-semibold ${Math.abs(totalPercent - 100) < 1e-4 ? 'text-green-600' : 'text-red-600'}`}>
+            Chances add up to {+totalPercent.toFixed(2)}% {Math.abs(totalPercent - 100) < 1e-4 ? '✓' : '(needs to be 100%)'}
+          </span>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-xl p-6 flex flex-col">
+        <h3 className="font-bold text-lg mb-3">📐 Live Maths</h3>
+        <div className="space-y-2 text-sm">
+          <p className="flex justify-between"><span>Expected value</span><span className="font-bold">{ev.toFixed(2)} PP</span></p>
+          <p className="flex justify-between"><span>Price</span><span className="font-bold">{price} PP</span></p>
+          <p className={`flex justify-between ${profit >= 0 ? 'text-green-600' : 'text-red-600'}`}><span>Profit per open</span><span className="font-bold">{profit >= 0 ? '+' : ''}{profit.toFixed(2)} PP</span></p>
+          <p className="flex justify-between"><span>Variance</span><span className="font-bold">{variance(boxItems).toFixed(1)} PP²</span></p>
+          <p className="flex justify-between"><span>Standard deviation</span><span className="font-bold">{standardDeviation(boxItems).toFixed(2)} PP</span></p>
+        </div>
+        <p className="text-sm text-gray-600 mt-4">
+          {Math.abs(profit) < 0.005
+            ? 'This box is fair: on average players get back exactly what they pay.'
+            : profit > 0
+              ? 'This box favours the player: on average they win more than they pay.'
+              : 'This box favours the shop: on average players lose points on every open.'}
+        </p>
+
+        {problems.length > 0 && (
+          <ul className="mt-4 text-sm text-red-600 list-disc list-inside space-y-1">
+            {problems.map(problem => <li key={problem}>{problem}</li>)}
+          </ul>
+        )}
+        <div className="mt-auto pt-4">
+          <Button onClick={save} disabled={problems.length > 0} className="w-full">💾 Save to Shop</Button>
+        </div>
+        {savedName && <p className="text-green-700 font-semibold text-sm mt-2 text-center">"{savedName}" is now in the shop. Challenge a classmate to work out if it's fair!</p>}
+      </div>
+    </div>
+  );
+};
+
+export default LuckyBoxDesigner;
@@ -0,0 +1,91 @@
+import React, { useMemo } from 'react';
+import { GameEvent, InventoryItem, LuckyBox } from '../../types';
+import Button from '../ui/Button';
+import { emitGameEvent } from '../../utils/gameEvents';
+import { getCollectionProgress, getCollectionSets, stackInventory } from '../../utils/inventory';
+import { playSound } from '../../utils/sounds';
+
+interface LuckyBoxInventoryProps {
+  boxes: LuckyBox[];
+  inventory: InventoryItem[];
+  history: GameEvent[];
+}
+
+const formatOpens = (opens: number) => {
+  if (Number.isNaN(opens)) return 'too many items to work out';
+  if (!Number.isFinite(opens)) return 'never (some items can\'t be won)';
+  return `${opens.toFixed(1)} opens`;
+};
+
+const LuckyBoxInventory: React.FC<LuckyBoxInventoryProps> = ({ boxes, inventory, history }) => {
+  const stacks = useMemo(() => stackInventory(inventory), [inventory]);
+  const collections = useMemo(
+    () => getCollectionSets(boxes).map(set => getCollectionProgress(history, set)),
+    [boxes, history]
+  );
+  const totalValue = inventory.reduce((sum, entry) => sum + entry.item.value, 0);
+
+  const sell = (entry: InventoryItem) => {
+    playSound('win');
+    emitGameEvent({ type: 'lucky-box-item-sold', inventoryId: entry.id, itemName: entry.item.name, value: entry.item.value });
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <div className="bg-white rounded-lg shadow-xl p-6">
+        <div className="flex justify-between items-baseline mb-4">
+          <h2 className="text-2xl font-bold text-gray-800">🎒 My Items</h2>
+          <span className="text-sm text-gray-600">Worth {totalValue} PP</span>
+        </div>
+        {stacks.length === 0 ? (
+          <p className="text-center text-gray-500 bg-gray-50 rounded-lg p-8">Nothing here yet. Items you win from boxes are kept until you sell them.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {stacks.map(stack => (
+              <li key={`${stack.item.name}:${stack.item.value}`} className="flex items-center justify-between py-2">
+                <div>
+                  <p className="font-semibold">{stack.item.name} <span className="text-gray-500 font-normal">× {stack.entries.length}</span></p>
+                  <p className="text-xs text-gray-500 capitalize">{stack.item.rarity} · {stack.item.value} PP each</p>
+                </div>
+                <Button onClick={() => sell(stack.entries[0])} variant="secondary">Sell for {stack.item.value} PP</Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow-xl p-6">
+        <h2 className="text-2xl font-bold text-gray-800">📚 Collections</h2>
+        <p className="text-gray-600 text-sm mb-4">
+          How many boxes does it take to find every item in a set? This is the <strong>coupon collector problem</strong>: the last few items take the longest, because you keep getting ones you already have.
+        </p>
+        <div className="space-y-4">
+          {collections.map(progress => (
+            <div key={progress.set.id} className={`rounded-lg p-3 border ${progress.completed ? 'border-green-300 bg-green-50' : 'border-gray-200'}`}>
+              <div className="flex justify-between items-baseline">
+                <h3 className="font-bold">{progress.completed ? '🏆 ' : ''}{progress.set.name}</h3>
+                <span className="text-sm text-gray-600">{progress.found.length} / {progress.set.itemNames.length} found</span>
+              </div>
+              <div className="flex flex-wrap gap-1 my-2">
+                {progress.set.itemNames.map(name => (
+                  <span key={name} className={`text-xs rounded-full px-2 py-0.5 ${progress.found.includes(name) ? 'bg-indigo-100 text-indigo-700' : 'bg-gray-100 text-gray-400'}`}>
+                    {progress.found.includes(name) ? name : '???'}
+                  </span>
+                ))}
+              </div>
+              <div className="grid grid-cols-2 gap-2 text-sm">
+                <p>Expected: <strong>{formatOpens(progress.expectedOpens)}</strong></p>
+                <p>You: <strong>{progress.opens} opens</strong> {progress.completed ? '(complete!)' : 'so far'}</p>
+              </div>
+              {progress.set.id === 'everything' && (
+                <p className="text-xs text-gray-500 mt-1">Expected opens assume you pick a box at random each time.</p>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LuckyBoxInventory;
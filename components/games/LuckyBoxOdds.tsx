@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { GameEvent, LuckyBox, PityRule } from '../../types';
+import { expectedValue, geometricExpectedTrials, pityExpectedTrials, probabilityOfSuccessWithin, probabilityOfSuccessWithinWithPity } from '../../utils/probability';
+import { getDroughtCount, getTierChances, getTopTier, getTopTierChance, pityExpectedValue } from '../../utils/rarity';
+
+interface LuckyBoxOddsProps {
+  boxes: LuckyBox[];
+  history: GameEvent[];
+  pityRule: PityRule;
+}
+
+const MAX_OPENS = 100;
+
+const formatPercent = (p: number) => `${(p * 100).toFixed(1)}%`;
+
+const LuckyBoxOdds: React.FC<LuckyBoxOddsProps> = ({ boxes, history, pityRule }) => {
+  const [opens, setOpens] = useState(10);
+
+  return (
+    <div>
+      <div className="bg-white rounded-lg shadow-xl p-6 mb-6">
+        <h2 className="text-2xl font-bold text-gray-800">🎲 Rarity Odds</h2>
+        <p className="text-gray-600 mb-4">
+          Every open is an independent trial, so the number of opens until you get a box's rarest tier follows a <strong>geometric distribution</strong>. On average it takes <code className="bg-gray-200 px-1 rounded">1 ÷ p</code> opens, but "on average" still leaves plenty of very long droughts.
+        </p>
+        <label htmlFor="odds-opens" className="font-semibold">If you open a box <span className="text-indigo-600 text-xl">{opens}</span> time{opens === 1 ? '' : 's'}…</label>
+        <input id="odds-opens" type="range" min="1" max={MAX_OPENS} value={opens} onChange={(e) => setOpens(Number(e.target.value))} className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer mt-2" />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {boxes.map(box => {
+          const top = getTopTier(box);
+          const p = getTopTierChance(box);
+          const drought = getDroughtCount(history, box);
+          const withPityTrials = pityExpectedTrials(p, pityRule.threshold);
+          const opensUntilPity = Math.max(1, pityRule.threshold - drought);
+          return (
+            <div key={box.id} className="bg-white rounded-lg shadow-md p-4">
+              <h3 className={`text-xl font-bold ${box.color.replace('bg-', 'text-')}`}>{box.name}</h3>
+              <ul className="text-sm my-2">
+                {getTierChances(box).map(tier => (
+                  <li key={tier.rarity} className="flex justify-between capitalize">
+                    <span>{tier.rarity}</span><span>{formatPercent(tier.probability)}</span>
+                  </li>
+                ))}
+              </ul>
+              <div className="bg-gray-50 rounded p-3 text-sm space-y-1">
+                <p>Chance of <strong className="capitalize">{top}</strong> per open: <strong>{formatPercent(p)}</strong></p>
+                <p>Expected opens until one: <strong>{geometricExpectedTrials(p).toFixed(1)}</strong></p>
+                <p>P(at least one in {opens} opens): <strong>{formatPercent(probabilityOfSuccessWithin(opens, p))}</strong></p>
+                <p>P(none in {opens} opens): <strong>{formatPercent(1 - probabilityOfSuccessWithin(opens, p))}</strong></p>
+              </div>
+              <p className="text-sm mt-3">
+                🏜️ Your drought: <strong>{drought}</strong> open{drought === 1 ? '' : 's'} without a {top} item.
+                {!pityRule.enabled && drought > 0 && <span className="text-gray-500"> The box doesn't remember: your next open is still {formatPercent(p)}.</span>}
+              </p>
+
+              <div className={`mt-3 rounded p-3 text-sm border ${pityRule.enabled ? 'border-amber-300 bg-amber-50' : 'border-gray-200'}`}>
+                <p className="font-semibold mb-1">Pity at open {pityRule.threshold} {pityRule.enabled ? '(on)' : '(off)'}</p>
+                <table className="w-full">
+                  <thead>
+                    <tr className="text-gray-500 text-left"><th></th><th>Printed odds</th><th>With pity</th></tr>
+                  </thead>
+                  <tbody>
+                    <tr><td>Expected opens</td><td>{geometricExpectedTrials(p).toFixed(1)}</td><td>{withPityTrials.toFixed(1)}</td></tr>
+                    <tr><td>Real {top} rate</td><td>{formatPercent(p)}</td><td>{formatPercent(1 / withPityTrials)}</td></tr>
+                    <tr><td>P(≥1 in {opens})</td><td>{formatPercent(probabilityOfSuccessWithin(opens, p))}</td><td>{formatPercent(probabilityOfSuccessWithinWithPity(opens, p, pityRule.threshold))}</td></tr>
+                    <tr><td>Value per open</td><td>{expectedValue(box.items).toFixed(1)} PP</td><td>{pityExpectedValue(box, pityRule.threshold).toFixed(1)} PP</td></tr>
+                  </tbody>
+                </table>
+                {pityRule.enabled && drought > 0 && (
+                  <p className="mt-2 text-amber-800">Guaranteed {top} within {opensUntilPity} open{opensUntilPity === 1 ? '' : 's'}.</p>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      <p className="text-sm text-gray-600 mt-6 max-w-3xl mx-auto text-center">
+        When a game advertises a drop rate but also has a pity rule, the rate you really get is higher than the one printed, and the difference only shows up if you keep paying. Always ask: what does it cost, on average, to get the item I want?
+      </p>
+    </div>
+  );
+};
+
+export default LuckyBoxOdds;
@@ -1,17 +1,41 @@
 import React, { useState, useMemo } from 'react';
-import { LuckyBox, LuckyBoxItem, BadgeType } from '../../types';
-import { LUCKY_BOXES } from '../../constants';
+import { Game, CustomLuckyBox, GameEvent, InventoryItem, LuckyBox, LuckyBoxItem, PityRule } from '../../types';
 import Button from '../ui/Button';
 import Modal from '../ui/Modal';
+import LuckyBoxSimulator from './LuckyBoxSimulator';
+import LuckyBoxDesigner from './LuckyBoxDesigner';
+import LuckyBoxInventory from './LuckyBoxInventory';
+import LuckyBoxOdds from './LuckyBoxOdds';
 import { playSound } from '../../utils/sounds';
+import { useLearnMode } from '../../utils/router';
+import { emitGameEvent } from '../../utils/gameEvents';
+import { canCoverStake } from '../../utils/economy';
+import { getDroughtCount, getTopTier, openWithPity } from '../../utils/rarity';
+import { expectedValue, netExpectedValue, standardDeviation } from '../../utils/probability';
 
 interface LuckyBoxShopProps {
   goBack: () => void;
   currentPoints: number;
-  updatePoints: (amount: number) => void;
-  earnBadge: (badge: BadgeType) => void;
+  boxes: LuckyBox[];
+  customBoxes: CustomLuckyBox[];
+  inventory: InventoryItem[];
+  history: GameEvent[];
+  pityRule: PityRule;
+  playerName: string;
+  onSaveCustomBox: (box: CustomLuckyBox) => void;
+  onDeleteCustomBox: (boxId: string) => void;
 }
 
+type ShopMode = 'shop' | 'inventory' | 'odds' | 'simulate' | 'design';
+
+const SHOP_MODES: { id: ShopMode; label: string }[] = [
+  { id: 'shop', label: '🛒 Shop' },
+  { id: 'inventory', label: '🎒 Inventory' },
+  { id: 'odds', label: '🎲 Rarity Odds' },
+  { id: 'simulate', label: '🧪 Simulation Mode' },
+  { id: 'design', label: '🛠️ Box Designer' },
+];
+
 const getRarityColor = (rarity: LuckyBoxItem['rarity']) => {
     switch (rarity) {
         case 'common': return 'text-gray-500';
@@ -21,48 +45,47 @@ const getRarityColor = (rarity: LuckyBoxItem['rarity']) => {
     }
 }
 
-const calculateEV = (box: LuckyBox) => box.items.reduce((acc, item) => acc + item.value * item.probability, 0);
-
-const LuckyBoxShop: React.FC<LuckyBoxShopProps> = ({ goBack, currentPoints, updatePoints, earnBadge }) => {
+const LuckyBoxShop: React.FC<LuckyBoxShopProps> = ({ goBack, currentPoints, boxes: packBoxes, customBoxes, inventory, history, pityRule, playerName, onSaveCustomBox, onDeleteCustomBox }) => {
   const [result, setResult] = useState<LuckyBoxItem | null>(null);
+  const [resultWasPity, setResultWasPity] = useState(false);
   const [isOpening, setIsOpening] = useState(false);
-  const [showLearnMode, setShowLearnMode] = useState(false);
+  const [showLearnMode, setShowLearnMode] = useLearnMode(Game.LuckyBox);
   const [showActivityResult, setShowActivityResult] = useState(false);
+  const [mode, setMode] = useState<ShopMode>('shop');
+
+  const boxes = useMemo<LuckyBox[]>(() => [...packBoxes, ...customBoxes], [packBoxes, customBoxes]);
+  const designerOf = (box: LuckyBox) => customBoxes.find(c => c.id === box.id)?.designedBy;
 
   const highestEVBoxId = useMemo(() => {
-    return LUCKY_BOXES.reduce((bestBox, currentBox) => {
-        return calculateEV(currentBox) > calculateEV(bestBox) ? currentBox : bestBox;
-    }, LUCKY_BOXES[0]).id;
-  }, []);
+    return boxes.reduce((bestBox, currentBox) => {
+        return expectedValue(currentBox.items) > expectedValue(bestBox.items) ? currentBox : bestBox;
+    }, boxes[0]).id;
+  }, [boxes]);
 
   const openBox = (box: LuckyBox) => {
-    if (currentPoints < box.price) return;
-    
-    if (box.id === highestEVBoxId) {
-        earnBadge(BadgeType.SmartInvestor);
-    }
+    if (!canCoverStake(currentPoints, box.price)) return;
 
     setIsOpening(true);
     playSound('swoosh');
-    updatePoints(-box.price);
 
-    const rand = Math.random();
-    let cumulativeProb = 0;
-    const wonItem = box.items.find(item => {
-      cumulativeProb += item.probability;
-      return rand < cumulativeProb;
-    })!;
+    const { item: wonItem, pityApplied } = openWithPity(box, pityRule, getDroughtCount(history, box));
 
     setTimeout(() => {
-      updatePoints(wonItem.value);
+      emitGameEvent({
+        type: 'lucky-box-opened',
+        boxId: box.id,
+        boxName: box.name,
+        price: box.price,
+        item: wonItem,
+        wasBestExpectedValue: box.id === highestEVBoxId,
+        addedToInventory: true,
+        pityApplied,
+      });
       setResult(wonItem);
+      setResultWasPity(pityApplied);
       setIsOpening(false);
       setShowActivityResult(true);
       playSound('win');
-      earnBadge(BadgeType.FirstWin);
-      if(currentPoints + wonItem.value - box.price > 2000) {
-        earnBadge(BadgeType.HighRoller);
-      }
     }, 1500);
   };
 
@@ -73,13 +96,37 @@ const LuckyBoxShop: React.FC<LuckyBoxShopProps> = ({ goBack, currentPoints, upda
             <h1 className="text-4xl font-bold text-center text-yellow-500">Lucky Box Shop</h1>
             <Button onClick={() => setShowLearnMode(true)} variant="ghost">🎓 Learn Mode</Button>
         </div>
-        
+
+        <div className="flex justify-center space-x-2 mb-6">
+            {SHOP_MODES.map(m => (
+                <Button key={m.id} onClick={() => setMode(m.id)} variant={mode === m.id ? 'primary' : 'secondary'} disabled={isOpening}>{m.label}</Button>
+            ))}
+        </div>
+
+        {mode === 'inventory' && <LuckyBoxInventory boxes={boxes} inventory={inventory} history={history} />}
+        {mode === 'odds' && <LuckyBoxOdds boxes={boxes} history={history} pityRule={pityRule} />}
+        {mode === 'simulate' && <LuckyBoxSimulator boxes={boxes} />}
+        {mode === 'design' && <LuckyBoxDesigner designerName={playerName} onSave={onSaveCustomBox} />}
+        {mode === 'shop' && (<>
+        {!isOpening && boxes.every(box => !canCoverStake(currentPoints, box.price)) && (
+            <div className="text-center mb-6 p-3 bg-red-50 rounded-lg border border-red-200" role="alert">
+                <p className="font-semibold text-red-700">You can't afford any box right now. Sell some items from your inventory, or head back to the games to earn points with the daily allowance or the probability quiz.</p>
+            </div>
+        )}
+
         <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
-            {LUCKY_BOXES.map(box => (
+            {boxes.map(box => (
                 <div key={box.id} className="bg-white rounded-lg shadow-xl p-6 flex flex-col items-center border-t-4 border-yellow-400">
                     <div className={`text-7xl mb-4 transition-transform duration-1000 ${isOpening ? 'animate-spin' : ''}`}>🎁</div>
                     <h2 className={`text-2xl font-bold mb-2 ${box.color.replace('bg-', 'text-')}`}>{box.name}</h2>
                     <p className="font-semibold text-lg text-gray-700 mb-4">{box.price} PP</p>
+                    <p className="text-xs text-gray-500 -mt-3 mb-3">🏜️ {getDroughtCount(history, box)} opens since your last {getTopTier(box)} item</p>
+                    {designerOf(box) && (
+                        <p className="text-xs text-gray-500 -mt-3 mb-3">
+                            Designed by {designerOf(box)} ·{' '}
+                            <button onClick={() => onDeleteCustomBox(box.id)} className="underline hover:text-red-500">remove</button>
+                        </p>
+                    )}
                     <div className="w-full mb-4">
                         <h4 className="font-bold text-sm mb-1 text-gray-600">Possible Items:</h4>
                         <ul>
@@ -91,12 +138,13 @@ const LuckyBoxShop: React.FC<LuckyBoxShopProps> = ({ goBack, currentPoints, upda
                             ))}
                         </ul>
                     </div>
-                    <Button onClick={() => openBox(box)} disabled={currentPoints < box.price || isOpening} className="mt-auto w-full">
+                    <Button onClick={() => openBox(box)} disabled={!canCoverStake(currentPoints, box.price) || isOpening} className="mt-auto w-full">
                         {isOpening ? 'Opening...' : 'Buy & Open'}
                     </Button>
                 </div>
             ))}
         </div>
+        </>)}
 
         <Modal isOpen={showActivityResult} onClose={() => setShowActivityResult(false)} title="You got...">
             {result && (
@@ -104,6 +152,8 @@ const LuckyBoxShop: React.FC<LuckyBoxShopProps> = ({ goBack, currentPoints, upda
                     <h3 className={`text-3xl font-bold ${getRarityColor(result.rarity)} animate-pulse-once`}>{result.name}</h3>
                     <p className="text-gray-600">Value: {result.value} PP</p>
                     <p className={`mt-2 text-sm font-semibold ${getRarityColor(result.rarity)}`}>({result.rarity.toUpperCase()})</p>
+                    {resultWasPity && <p className="mt-2 text-sm font-semibold text-amber-700">The pity rule guaranteed this one!</p>}
+                    <p className="text-sm text-gray-600 mt-2">It's in your inventory. Sell it back any time for {result.value} PP.</p>
                 </div>
             )}
         </Modal>
@@ -115,8 +165,9 @@ const LuckyBoxShop: React.FC<LuckyBoxShopProps> = ({ goBack, currentPoints, upda
                 
                 <div className="space-y-3 pt-4">
                     <h4 className="font-bold">Let's calculate the EV for each box:</h4>
-                    {LUCKY_BOXES.map(box => {
-                        const ev = calculateEV(box);
+                    {boxes.map(box => {
+                        const ev = expectedValue(box.items);
+                        const profit = netExpectedValue(box.items, box.price);
                         return (
                         <div key={box.id} className="bg-gray-100 p-3 rounded-lg">
                             <p className="font-semibold">{box.name} (Cost: {box.price} PP)</p>
@@ -124,8 +175,11 @@ const LuckyBoxShop: React.FC<LuckyBoxShopProps> = ({ goBack, currentPoints, upda
                                 {box.items.map(i => `(${(i.probability*100)}% × ${i.value} PP)`).join(' + ')}
                                 = <span className="font-bold">{ev.toFixed(2)} PP</span>
                             </p>
-                            <p className={`text-sm font-bold ${ev > box.price ? 'text-green-600' : 'text-red-600'}`}>
-                                On average, you {ev > box.price ? 'gain' : 'lose'} {(Math.abs(ev - box.price)).toFixed(2)} PP each time you open this box.
+                            <p className={`text-sm font-bold ${profit > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                                On average, you {profit > 0 ? 'gain' : 'lose'} {Math.abs(profit).toFixed(2)} PP each time you open this box.
+                            </p>
+                            <p className="text-sm text-gray-600">
+                                Standard deviation: {standardDeviation(box.items).toFixed(2)} PP (how far a single prize usually lands from the average).
                             </p>
                         </div>
                         )
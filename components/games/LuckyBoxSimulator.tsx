@@ -0,0 +1,93 @@
+import React, { useMemo, useState } from 'react';
+import { LuckyBox } from '../../types';
+import Button from '../ui/Button';
+import FrequencyComparison from '../ui/FrequencyComparison';
+import RunningAverageChart from '../ui/RunningAverageChart';
+import { forkRng } from '../../utils/random';
+import { netExpectedValue } from '../../utils/probability';
+import { BoxSimulation, SIMULATION_BATCH_SIZES, emptyBoxSimulation, simulateBoxOpenings, summariseBoxSimulation } from '../../utils/simulation';
+import { playSound } from '../../utils/sounds';
+
+interface LuckyBoxSimulatorProps {
+  boxes: LuckyBox[];
+}
+
+const LuckyBoxSimulator: React.FC<LuckyBoxSimulatorProps> = ({ boxes }) => {
+  const [box, setBox] = useState<LuckyBox>(boxes[0]);
+  const [simulation, setSimulation] = useState<BoxSimulation>(() => emptyBoxSimulation(boxes[0]));
+  const [runCount, setRunCount] = useState(0);
+
+  const summary = useMemo(() => summariseBoxSimulation(box, simulation), [box, simulation]);
+  const expectedProfit = netExpectedValue(box.items, box.price);
+
+  const chooseBox = (next: LuckyBox) => {
+    setBox(next);
+    setSimulation(emptyBoxSimulation(next));
+  };
+
+  const openBoxes = (count: number) => {
+    playSound('click');
+    // Each run gets its own stream so repeated runs differ, even with a class seed.
+    const rng = forkRng(`lucky-box-simulation:${box.id}:${runCount}`);
+    setSimulation(simulateBoxOpenings(box, count, rng, simulation));
+    setRunCount(runCount + 1);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-xl p-6">
+      <h2 className="text-2xl font-bold text-gray-800">🧪 Simulation Mode</h2>
+      <p className="text-gray-600 mb-4">
+        Open lots of boxes instantly with <strong>virtual points</strong>. Your real points are never touched. Watch the average profit per box creep towards the expected value as the number of boxes grows: that's the <strong>law of large numbers</strong>.
+      </p>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {boxes.map(b => (
+          <Button key={b.id} onClick={() => chooseBox(b)} variant={b.id === box.id ? 'primary' : 'secondary'}>
+            {b.name} ({b.price} PP)
+          </Button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-6">
+        {SIMULATION_BATCH_SIZES.map(size => (
+          <Button key={size} onClick={() => openBoxes(size)}>Open {size.toLocaleString()}</Button>
+        ))}
+        <Button onClick={() => setSimulation(emptyBoxSimulation(box))} variant="ghost" disabled={summary.opened === 0}>↺ Reset</Button>
+      </div>
+
+      {summary.opened === 0 ? (
+        <p className="text-center text-gray-500 bg-gray-50 rounded-lg p-8">Pick a batch size to start opening the {box.name}.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 animate-fade-in">
+          <div>
+            <h3 className="font-semibold text-gray-700 mb-2">Items won after {summary.opened.toLocaleString()} boxes</h3>
+            <FrequencyComparison rows={summary.frequencies} />
+            <div className="grid grid-cols-3 gap-2 text-center text-sm mt-4">
+              <div className="bg-red-50 rounded p-2">
+                <p className="text-gray-600">Virtual spent</p>
+                <p className="font-bold text-red-600">{summary.spent.toLocaleString()} PP</p>
+              </div>
+              <div className="bg-green-50 rounded p-2">
+                <p className="text-gray-600">Virtual won</p>
+                <p className="font-bold text-green-600">{summary.won.toLocaleString()} PP</p>
+              </div>
+              <div className="bg-indigo-50 rounded p-2">
+                <p className="text-gray-600">Net</p>
+                <p className="font-bold text-indigo-600">{(summary.won - summary.spent).toLocaleString()} PP</p>
+              </div>
+            </div>
+          </div>
+          <div>
+            <h3 className="font-semibold text-gray-700 mb-2">Average profit per box</h3>
+            <RunningAverageChart averages={summary.runningAverages} expected={expectedProfit} />
+            <p className="text-sm text-gray-600 mt-2">
+              The dashed green line is the expected profit of {expectedProfit.toFixed(2)} PP per box. Early on the blue line jumps around; with more boxes it settles close to the green line.
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LuckyBoxSimulator;
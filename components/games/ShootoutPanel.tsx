@@ -0,0 +1,66 @@
+import React from 'react';
+import { SHOOTOUT_ROUNDS, ShootoutKick, ShootoutSide, getShootoutScore } from '../../utils/shootout';
+
+interface ShootoutPanelProps {
+  kicks: ShootoutKick[];
+  winProbabilities: number[]; // before the first kick, then after each kick
+  playerChance: number;
+  cpuChance: number;
+}
+
+const formatPercent = (p: number) => `${(p * 100).toFixed(1)}%`;
+
+const ShootoutPanel: React.FC<ShootoutPanelProps> = ({ kicks, winProbabilities, playerChance, cpuChance }) => {
+  const score = getShootoutScore(kicks);
+  const rounds = Math.max(SHOOTOUT_ROUNDS, score.playerKicks, score.cpuKicks);
+  const current = winProbabilities[winProbabilities.length - 1];
+
+  const renderRow = (side: ShootoutSide, label: string) => {
+    const sideKicks = kicks.filter(k => k.side === side);
+    return (
+      <tr>
+        <td className="font-semibold pr-2">{label}</td>
+        {Array.from({ length: rounds }, (_, i) => (
+          <td key={i} className={`text-center ${i >= SHOOTOUT_ROUNDS ? 'bg-amber-50' : ''}`}>
+            {i < sideKicks.length ? (sideKicks[i].scored ? '⚽' : '❌') : '·'}
+          </td>
+        ))}
+        <td className="font-bold text-lg pl-2">{side === 'player' ? score.player : score.cpu}</td>
+      </tr>
+    );
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-md max-w-4xl mx-auto mb-4">
+      <div className="flex flex-col md:flex-row gap-6">
+        <table className="text-sm">
+          <thead>
+            <tr className="text-gray-500">
+              <th></th>
+              {Array.from({ length: rounds }, (_, i) => <th key={i} className="w-8">{i < SHOOTOUT_ROUNDS ? i + 1 : 'SD'}</th>)}
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {renderRow('player', 'You')}
+            {renderRow('cpu', 'CPU')}
+          </tbody>
+        </table>
+        <div className="flex-1">
+          <p className="text-sm text-gray-600">Chance you win the shootout</p>
+          <p className="text-3xl font-bold text-indigo-600">{formatPercent(current)}</p>
+          <div className="flex items-end gap-1 h-16 mt-2" aria-label="Win probability after each kick">
+            {winProbabilities.map((p, i) => (
+              <div key={i} className="flex-1 max-w-[1.5rem] bg-indigo-300 rounded-t" style={{ height: `${Math.max(2, p * 100)}%` }} title={formatPercent(p)}></div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            Worked out exactly from the score, assuming you score {formatPercent(playerChance)} of your kicks (the chance for your last aim against this keeper; before your first kick, your best aim) and the CPU scores {formatPercent(cpuChance)}.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShootoutPanel;
@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { SkillEstimate } from '../../utils/skill';
+
+interface SkillEstimatePanelProps {
+  estimates: SkillEstimate[];
+  getTrueAccuracy: (estimate: SkillEstimate) => number;
+}
+
+const formatPercent = (p: number) => `${(p * 100).toFixed(0)}%`;
+
+const SkillEstimatePanel: React.FC<SkillEstimatePanelProps> = ({ estimates, getTrueAccuracy }) => {
+  const [showTruth, setShowTruth] = useState(false);
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-md max-w-4xl mx-auto mb-4">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="font-bold text-gray-800">🎯 Your accuracy so far</h3>
+        <label className="text-sm text-gray-600">
+          <input type="checkbox" checked={showTruth} onChange={(e) => setShowTruth(e.target.checked)} className="mr-1" />
+          Reveal true accuracy
+        </label>
+      </div>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500">
+            <th>Target</th>
+            <th>Shots</th>
+            <th>Goals</th>
+            <th>Rate</th>
+            <th>95% confidence interval</th>
+          </tr>
+        </thead>
+        <tbody>
+          {estimates.map(e => {
+            const { low, high, estimate } = e.interval;
+            return (
+              <tr key={e.target.id}>
+                <td className="font-semibold pr-2">{e.target.name}</td>
+                <td>{e.attempts}</td>
+                <td>{e.goals}</td>
+                <td>{e.attempts > 0 ? formatPercent(estimate) : '–'}</td>
+                <td className="w-1/2">
+                  <div className="flex items-center gap-2">
+                    <div className="relative flex-1 h-3 bg-gray-100 rounded">
+                      <div className="absolute h-3 bg-indigo-300 rounded" style={{ left: `${low * 100}%`, width: `${(high - low) * 100}%` }}></div>
+                      {e.attempts > 0 && (
+                        <div className="absolute w-1 h-3 bg-indigo-700" style={{ left: `${estimate * 100}%` }} title={`Observed ${formatPercent(estimate)}`}></div>
+                      )}
+                      {showTruth && (
+                        <div className="absolute w-1 h-5 -top-1 bg-red-500" style={{ left: `${getTrueAccuracy(e) * 100}%` }} title={`True ${formatPercent(getTrueAccuracy(e))}`}></div>
+                      )}
+                    </div>
+                    <span className="text-xs text-gray-600 w-20">{formatPercent(low)}–{formatPercent(high)}</span>
+                  </div>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <p className="text-xs text-gray-500 mt-2">
+        Your true accuracy for each target is hidden. The shaded range is where it probably lies, based only on your shots; it narrows the more you practise.
+        {showTruth && ' The red line is your true accuracy.'}
+      </p>
+    </div>
+  );
+};
+
+export default SkillEstimatePanel;
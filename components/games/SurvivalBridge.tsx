@@ -1,73 +1,141 @@
 import React, { useState, useMemo } from 'react';
-import { BadgeType } from '../../types';
+import { Game, BridgeSettings, SurvivalBridgeConfig } from '../../types';
+import { BRIDGE_PRESETS } from '../../constants';
 import Button from '../ui/Button';
 import Modal from '../ui/Modal';
-import { TOTAL_ADVENTURERS, SURVIVAL_BRIDGE_CONFIG } from '../../constants';
 import { playSound } from '../../utils/sounds';
+import { useLearnMode } from '../../utils/router';
+import { emitGameEvent, getPointsChange } from '../../utils/gameEvents';
+import { bernoulli } from '../../utils/random';
+import { canCoverStake } from '../../utils/economy';
+import { ExpeditionMove, crossingEV, getAdventurerSurvivalChance, getBridgeTable, getMoveValue, getOptimalSequence, independentCrossingEV, solveExpedition } from '../../utils/bridge';
+import SurvivorDistribution from './SurvivorDistribution';
+import BridgeTableEditor from './BridgeTableEditor';
 
 interface SurvivalBridgeProps {
   goBack: () => void;
-  updatePoints: (amount: number) => void;
-  earnBadge: (badge: BadgeType) => void;
+  currentPoints: number;
+  bridge: SurvivalBridgeConfig;
+  packName: string;
+  packBridge: SurvivalBridgeConfig;
+  settings: BridgeSettings;
+  onSettingsChange: (settings: BridgeSettings) => void;
 }
 
-type GameState = 'ready' | 'crossing' | 'result';
+type GameState = 'ready' | 'crossing' | 'result' | 'summary';
 type AdventurerStatus = 'waiting' | 'safe' | 'lost';
+type BridgeMode = 'free' | 'expedition';
 
-const SurvivalBridge: React.FC<SurvivalBridgeProps> = ({ goBack, updatePoints, earnBadge }) => {
+// An expedition has this many crossings; anyone left behind scores nothing.
+const EXPEDITION_CROSSINGS = 4;
+const formatPercent = (p: number) => `${(p * 100).toFixed(0)}%`;
+
+const SurvivalBridge: React.FC<SurvivalBridgeProps> = ({ goBack, currentPoints, bridge, packName, packBridge, settings, onSettingsChange }) => {
     const [gameState, setGameState] = useState<GameState>('ready');
-    const [adventurers, setAdventurers] = useState<AdventurerStatus[]>(Array(TOTAL_ADVENTURERS).fill('waiting'));
+    const [adventurers, setAdventurers] = useState<AdventurerStatus[]>(Array(bridge.totalAdventurers).fill('waiting'));
     const [selectedCount, setSelectedCount] = useState(1);
-    const [result, setResult] = useState<{ success: boolean; points: number; count: number } | null>(null);
-    const [showLearnMode, setShowLearnMode] = useState(false);
+    const [result, setResult] = useState<{ success: boolean; points: number; count: number; survivors: number; independent: boolean } | null>(null);
+    const [showLearnMode, setShowLearnMode] = useLearnMode(Game.SurvivalBridge);
+    const [mode, setMode] = useState<BridgeMode>('free');
+    const [moves, setMoves] = useState<ExpeditionMove[]>([]);
+    // Each adventurer crosses on their own instead of the group sharing one fate
+    const [independent, setIndependent] = useState(false);
+    const [editingTable, setEditingTable] = useState(false);
+
+    // The EV used for planning depends on whether adventurers cross together
+    const moveEV = independent ? independentCrossingEV : crossingEV;
+    const plan = useMemo(() => solveExpedition(bridge, EXPEDITION_CROSSINGS, moveEV), [bridge, moveEV]);
+    const crossingsLeft = EXPEDITION_CROSSINGS - moves.length;
 
-    const config = useMemo(() => SURVIVAL_BRIDGE_CONFIG.find(c => c.count === selectedCount)!, [selectedCount]);
+    // Falls back to the first row if the table has no row for the selected count
+    const config = useMemo(() => bridge.crossings.find(c => c.count === selectedCount) ?? bridge.crossings[0], [bridge, selectedCount]);
+
+    const adventurerChance = getAdventurerSurvivalChance(config);
+    const canAffordCrossing = canCoverStake(currentPoints, config.penalty);
+    const availableAdventurers = adventurers.filter(a => a === 'waiting').length;
+    const expeditionOver = mode === 'expedition' && (availableAdventurers === 0 || crossingsLeft === 0);
 
     const handleSendAcross = () => {
+        if (!canAffordCrossing) return;
         setGameState('crossing');
         playSound('swoosh');
-        const isSuccess = Math.random() < config.probability;
+        const survivors = independent
+            ? Array.from({ length: selectedCount }, () => bernoulli(adventurerChance)).filter(Boolean).length
+            : bernoulli(config.probability) ? selectedCount : 0;
+        const isSuccess = survivors === selectedCount;
 
         setTimeout(() => {
-            const pointsChange = isSuccess ? config.reward : config.penalty;
-            updatePoints(pointsChange);
+            const event = emitGameEvent({
+                type: 'bridge-crossing',
+                count: selectedCount,
+                totalAdventurers: bridge.totalAdventurers,
+                probability: independent ? adventurerChance : config.probability,
+                success: isSuccess,
+                reward: config.reward,
+                penalty: config.penalty,
+                ...(independent ? { survivors } : {}),
+            });
+            const pointsChange = getPointsChange(event);
+            if (mode === 'expedition') {
+                setMoves(prev => [...prev, { waiting: availableAdventurers, crossingsLeft, count: selectedCount, success: isSuccess, survivors, points: pointsChange }]);
+            }
 
-            if (isSuccess) {
-                playSound('success');
-                if (selectedCount === TOTAL_ADVENTURERS) {
-                    earnBadge(BadgeType.BridgeMaster);
+            playSound(survivors > 0 ? 'success' : 'failure');
+            const newAdventurers = [...adventurers];
+            let toMakeSafe = survivors;
+            let toMakeLost = selectedCount - survivors;
+            for (let i = 0; i < newAdventurers.length; i++) {
+                if (newAdventurers[i] !== 'waiting') continue;
+                if (toMakeSafe > 0) {
+                    newAdventurers[i] = 'safe';
+                    toMakeSafe--;
+                } else if (toMakeLost > 0) {
+                    newAdventurers[i] = 'lost';
+                    toMakeLost--;
                 }
-                const newAdventurers = [...adventurers];
-                let toMakeSafe = selectedCount;
-                for(let i=0; i<newAdventurers.length; i++) {
-                    if(newAdventurers[i] === 'waiting' && toMakeSafe > 0) {
-                        newAdventurers[i] = 'safe';
-                        toMakeSafe--;
-                    }
-                }
-                setAdventurers(newAdventurers);
-            } else {
-                 playSound('failure');
-                 const newAdventurers = [...adventurers];
-                let toMakeLost = selectedCount;
-                for(let i=0; i<newAdventurers.length; i++) {
-                    if(newAdventurers[i] === 'waiting' && toMakeLost > 0) {
-                        newAdventurers[i] = 'lost';
-                        toMakeLost--;
-                    }
-                }
-                setAdventurers(newAdventurers);
             }
+            setAdventurers(newAdventurers);
 
-            setResult({ success: isSuccess, points: pointsChange, count: selectedCount });
+            setResult({ success: isSuccess, points: pointsChange, count: selectedCount, survivors, independent });
             setGameState('result');
         }, 2000); // 2-second animation for crossing
     };
     
+    // Sends everyone back to the start without changing the mode
+    const resetCamp = (table: SurvivalBridgeConfig = bridge) => {
+        setMoves([]);
+        setAdventurers(Array(table.totalAdventurers).fill('waiting'));
+        setSelectedCount(1);
+        setResult(null);
+        setGameState('ready');
+    };
+
+    const startExpedition = (nextMode: BridgeMode) => {
+        setMode(nextMode);
+        resetCamp();
+    };
+
+    // A different table can have a different number of adventurers, so
+    // switching tables starts the camp again in whichever mode is being played.
+    const changeTable = (next: BridgeSettings) => {
+        onSettingsChange(next);
+        resetCamp(getBridgeTable(next, packBridge));
+    };
+
+    const saveCustomTable = (custom: SurvivalBridgeConfig) => {
+        changeTable({ tableId: 'custom', custom });
+        setEditingTable(false);
+    };
+
     const handlePlayAgain = () => {
         const waitingCount = adventurers.filter(a => a === 'waiting').length;
+        if (mode === 'expedition' && (waitingCount === 0 || crossingsLeft === 0)) {
+            setResult(null);
+            setGameState('summary');
+            return;
+        }
         if (waitingCount === 0) {
-             setAdventurers(Array(TOTAL_ADVENTURERS).fill('waiting'));
+             setAdventurers(Array(bridge.totalAdventurers).fill('waiting'));
              setSelectedCount(1);
         } else {
             setSelectedCount(Math.min(1, waitingCount));
@@ -82,7 +150,12 @@ const SurvivalBridge: React.FC<SurvivalBridgeProps> = ({ goBack, updatePoints, e
         return '🚶';
     }
 
-    const availableAdventurers = adventurers.filter(a => a === 'waiting').length;
+
+    const crossings = bridge.crossings;
+    const safestCrossing = crossings[0];
+    const riskiestCrossing = crossings[crossings.length - 1];
+    const exampleCrossing = crossings[Math.max(0, Math.floor(crossings.length / 2) - 1)];
+    const bestCrossing = crossings.reduce((best, c) => crossingEV(c) > crossingEV(best) ? c : best, crossings[0]);
 
     return (
         <div className="container mx-auto">
@@ -92,13 +165,51 @@ const SurvivalBridge: React.FC<SurvivalBridgeProps> = ({ goBack, updatePoints, e
                 <Button onClick={() => setShowLearnMode(true)} variant="ghost">🎓 Learn Mode</Button>
             </div>
             
+            <div className="flex flex-wrap items-center justify-center gap-2 mb-4 text-sm text-gray-700">
+                <label htmlFor="bridge-table" className="font-semibold">Bridge table:</label>
+                <select
+                    id="bridge-table"
+                    value={settings.tableId}
+                    onChange={(e) => changeTable({ ...settings, tableId: e.target.value })}
+                    disabled={gameState === 'crossing'}
+                    className="border border-gray-300 rounded-lg px-2 py-1"
+                >
+                    <option value="pack">{packName}</option>
+                    {BRIDGE_PRESETS.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                    {settings.custom && <option value="custom">Custom table</option>}
+                </select>
+                <span className="text-gray-500">{BRIDGE_PRESETS.find(p => p.id === settings.tableId)?.description}</span>
+                <Button onClick={() => setEditingTable(true)} variant="ghost" disabled={gameState === 'crossing'}>✏️ Edit Table</Button>
+            </div>
+
+            {editingTable ? (
+                <BridgeTableEditor initial={settings.custom ?? bridge} onSave={saveCustomTable} onCancel={() => setEditingTable(false)} />
+            ) : (
             <div className="bg-white p-6 rounded-lg shadow-lg">
+                <div className="flex justify-center space-x-2 mb-6">
+                    {(['free', 'expedition'] as BridgeMode[]).map(m => (
+                        <button
+                            key={m}
+                            onClick={() => startExpedition(m)}
+                            disabled={gameState === 'crossing'}
+                            className={`px-4 py-2 rounded-lg font-semibold ${mode === m ? 'bg-green-500 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+                        >
+                            {m === 'free' ? '🌉 Free Play' : `🧭 Expedition (${EXPEDITION_CROSSINGS} crossings)`}
+                        </button>
+                    ))}
+                </div>
                 <div className="text-center mb-6">
                     <h2 className="text-2xl font-semibold text-gray-700">Adventurer's Camp</h2>
                     <div className="flex justify-center flex-wrap gap-2 mt-4 text-3xl">
                         {adventurers.map((status, index) => <span key={index}>{getAdventurerIcon(status)}</span>)}
                     </div>
-                    <p className="mt-2 text-gray-600">{availableAdventurers} / {TOTAL_ADVENTURERS} adventurers waiting to cross.</p>
+                    <p className="mt-2 text-gray-600">{availableAdventurers} / {bridge.totalAdventurers} adventurers waiting to cross.</p>
+                    {mode === 'expedition' && (
+                        <p className="mt-1 text-gray-700">
+                            Crossing <strong>{Math.min(moves.length + 1, EXPEDITION_CROSSINGS)}</strong> of {EXPEDITION_CROSSINGS} · Expedition score: <strong>{moves.reduce((sum, m) => sum + m.points, 0)} PP</strong>
+                            {crossingsLeft === 1 && availableAdventurers > 0 && <span className="block text-sm text-amber-700">Last crossing! Anyone left at camp afterwards scores nothing.</span>}
+                        </p>
+                    )}
                 </div>
 
                 <div className="bg-gray-50 p-6 rounded-lg">
@@ -117,37 +228,63 @@ const SurvivalBridge: React.FC<SurvivalBridgeProps> = ({ goBack, updatePoints, e
                         />
                     </div>
                     
+                    <label className="flex items-center justify-center space-x-2 mt-4 text-gray-700">
+                        <input type="checkbox" checked={independent} onChange={(e) => setIndependent(e.target.checked)} disabled={gameState !== 'ready' || (mode === 'expedition' && moves.length > 0)} className="w-4 h-4" />
+                        <span className="font-semibold">Cross one at a time</span>
+                        <span className="text-sm text-gray-500">(each adventurer has their own {formatPercent(adventurerChance)} chance, so all {config.count} make it {formatPercent(config.probability)} of the time; points per survivor)</span>
+                    </label>
+
                     <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-center mt-6">
                         <div className="bg-blue-100 p-4 rounded-lg">
-                            <p className="font-semibold text-blue-800">Success Chance</p>
-                            <p className="text-2xl font-bold text-blue-600">{(config.probability * 100).toFixed(0)}%</p>
+                            <p className="font-semibold text-blue-800">{independent ? 'Chance Each Survives' : 'Success Chance'}</p>
+                            <p className="text-2xl font-bold text-blue-600">{formatPercent(independent ? adventurerChance : config.probability)}</p>
                         </div>
                         <div className="bg-green-100 p-4 rounded-lg">
-                            <p className="font-semibold text-green-800">Potential Reward</p>
+                            <p className="font-semibold text-green-800">{independent ? 'If All Survive' : 'Potential Reward'}</p>
                             <p className="text-2xl font-bold text-green-600">+{config.reward} PP</p>
                         </div>
                         <div className="bg-red-100 p-4 rounded-lg">
-                            <p className="font-semibold text-red-800">Potential Penalty</p>
+                            <p className="font-semibold text-red-800">{independent ? 'If None Survive' : 'Potential Penalty'}</p>
                             <p className="text-2xl font-bold text-red-600">{config.penalty} PP</p>
                         </div>
                     </div>
 
+                    {independent && (
+                        <div className="mt-6 bg-white rounded-lg p-4">
+                            <h4 className="font-semibold text-center mb-2">How many will survive? (binomial distribution)</h4>
+                            <SurvivorDistribution crossing={config} />
+                        </div>
+                    )}
+
                     <div className="text-center mt-8">
                         <Button 
                             onClick={handleSendAcross} 
-                            disabled={gameState !== 'ready' || availableAdventurers === 0}
+                            disabled={gameState !== 'ready' || availableAdventurers === 0 || !canAffordCrossing}
                             className="w-full max-w-xs"
                         >
                             {gameState === 'crossing' ? 'Crossing...' : 'Send Across Bridge'}
                         </Button>
+                        {!canAffordCrossing && (
+                            <p className="text-sm text-red-600 mt-2">You need at least {Math.abs(config.penalty)} PP to risk this crossing. Try a smaller group.</p>
+                        )}
                     </div>
                 </div>
             </div>
+            )}
 
              <Modal isOpen={gameState === 'result'} onClose={handlePlayAgain} title="The Crossing is Over!">
                 {result && (
                     <div className="text-center">
-                        {result.success ? (
+                        {result.independent ? (
+                            <>
+                                <span className="text-7xl block mb-4">{result.survivors > 0 ? '🧗' : '💥'}</span>
+                                <h3 className="text-3xl font-bold text-gray-800">{result.survivors} of {result.count} made it!</h3>
+                                <p className="text-gray-600 mt-1">{result.points >= 0 ? `You earned ${result.points}` : `You lost ${Math.abs(result.points)}`} Probability Points.</p>
+                                <div className="mt-4 text-left">
+                                    <SurvivorDistribution crossing={bridge.crossings.find(c => c.count === result.count)!} highlight={result.survivors} />
+                                </div>
+                            </>
+                        ) : result.success ? (
                              <>
                                 <span className="text-7xl block mb-4 animate-pulse-once">🎉</span>
                                 <h3 className="text-3xl font-bold text-green-600">Success!</h3>
@@ -163,26 +300,76 @@ const SurvivalBridge: React.FC<SurvivalBridgeProps> = ({ goBack, updatePoints, e
                             </>
                         )}
                         <Button onClick={handlePlayAgain} className="mt-6">
-                            {availableAdventurers > 0 ? 'Next Crossing' : 'Start New Expedition'}
+                            {expeditionOver ? 'See Expedition Report' : availableAdventurers > 0 ? 'Next Crossing' : 'Start New Expedition'}
                         </Button>
                     </div>
                 )}
             </Modal>
 
+            <Modal isOpen={gameState === 'summary'} onClose={() => startExpedition('expedition')} title="🧭 Expedition Report">
+                {(() => {
+                    const score = moves.reduce((sum, m) => sum + m.points, 0);
+                    const yourExpected = moves.reduce((sum, m) => sum + moveEV(bridge.crossings.find(c => c.count === m.count)!), 0);
+                    const bestExpected = plan.value[bridge.totalAdventurers][EXPEDITION_CROSSINGS];
+                    const stranded = bridge.totalAdventurers - moves.reduce((sum, m) => sum + m.count, 0);
+                    return (
+                        <div className="space-y-4">
+                            <p>You scored <strong>{score} PP</strong>. Your choices were worth <strong>{yourExpected.toFixed(1)} PP</strong> on average; the best plan is worth <strong>{bestExpected.toFixed(1)} PP</strong> ({getOptimalSequence(plan, bridge.totalAdventurers, EXPEDITION_CROSSINGS).join(' → ')}).</p>
+                            {stranded > 0 && <p className="text-amber-700">{stranded} adventurer{stranded === 1 ? ' was' : 's were'} still at camp when the crossings ran out.</p>}
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="text-left text-gray-500"><th>Crossing</th><th>Waiting</th><th>You sent</th><th>Best move</th><th>EV given up</th><th>Result</th></tr>
+                                </thead>
+                                <tbody>
+                                    {moves.map((m, i) => {
+                                        const best = plan.bestCount[m.waiting][m.crossingsLeft];
+                                        const givenUp = plan.value[m.waiting][m.crossingsLeft] - getMoveValue(plan, bridge, m.waiting, m.crossingsLeft, m.count, moveEV);
+                                        return (
+                                            <tr key={i} className={givenUp < 0.05 ? 'text-green-700' : ''}>
+                                                <td>{i + 1}</td>
+                                                <td>{m.waiting}</td>
+                                                <td>{m.count}</td>
+                                                <td>{best}</td>
+                                                <td>{givenUp < 0.05 ? '✓ optimal' : `${givenUp.toFixed(1)} PP`}</td>
+                                                <td>{m.survivors}/{m.count} safe {m.points >= 0 ? '+' : ''}{m.points}</td>
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                            <p className="text-sm text-gray-600">"Best move" is judged from where you actually were, so one early mistake doesn't make every later move look wrong. The dice decide the score, but only your choices decide the expected score.</p>
+                            <div className="text-center">
+                                <Button onClick={() => startExpedition('expedition')}>Start New Expedition</Button>
+                            </div>
+                        </div>
+                    );
+                })()}
+            </Modal>
+
             <Modal isOpen={showLearnMode} onClose={() => setShowLearnMode(false)} title="🎓 Learn Mode: Risk vs. Reward">
                  <div className="space-y-4">
                     <p>This game is all about balancing <strong>risk</strong> and <strong>reward</strong>. Every choice you make has a potential upside and a potential downside, governed by probability.</p>
                     <div className="bg-gray-100 p-4 rounded-lg">
                         <ul className="list-disc list-inside space-y-2">
-                           <li><strong>Low Risk, Low Reward:</strong> Sending 1 adventurer is very safe (99% success), but the reward is small (+20 PP). You're unlikely to lose, but you won't gain much either.</li>
-                           <li><strong>High Risk, High Reward:</strong> Sending all 10 adventurers has a very low chance of success (10%), but the potential reward is huge (+500 PP). The penalty for failure is also massive (-250 PP).</li>
+                           <li><strong>Low Risk, Low Reward:</strong> Sending {safestCrossing.count} adventurer is very safe ({formatPercent(safestCrossing.probability)} success), but the reward is small (+{safestCrossing.reward} PP). You're unlikely to lose, but you won't gain much either.</li>
+                           <li><strong>High Risk, High Reward:</strong> Sending all {riskiestCrossing.count} adventurers has a very low chance of success ({formatPercent(riskiestCrossing.probability)}), but the potential reward is huge (+{riskiestCrossing.reward} PP). The penalty for failure is also massive ({riskiestCrossing.penalty} PP).</li>
                            <li><strong>The Smart Play?</strong> Is there a "best" choice? We can use <strong>Expected Value (EV)</strong> again, just like in the Lucky Box Shop!</li>
                         </ul>
                     </div>
                     <p>The formula for this game is: <code className="bg-gray-200 p-1 rounded">EV = (Success Chance × Reward) + (Failure Chance × Penalty)</code></p>
-                    <p>Let's calculate the EV for sending 5 adventurers:</p>
-                    <p className="bg-gray-100 p-3 rounded-lg text-sm">EV = (70% × 115 PP) + (30% × -50 PP) = 80.5 + (-15) = <span className="font-bold">65.5 PP</span></p>
-                    <p>This means, on average, you can expect to gain about 65.5 points each time you send 5 adventurers. Try calculating the EV for other amounts! The one with the highest EV is mathematically the best choice in the long run.</p>
+                    <p>Let's calculate the EV for sending {exampleCrossing.count} adventurers:</p>
+                    <p className="bg-gray-100 p-3 rounded-lg text-sm">EV = ({formatPercent(exampleCrossing.probability)} × {exampleCrossing.reward} PP) + ({formatPercent(1 - exampleCrossing.probability)} × {exampleCrossing.penalty} PP) = {(exampleCrossing.probability * exampleCrossing.reward).toFixed(1)} + ({((1 - exampleCrossing.probability) * exampleCrossing.penalty).toFixed(1)}) = <span className="font-bold">{crossingEV(exampleCrossing).toFixed(1)} PP</span></p>
+                    <p>This means, on average, you can expect to gain about {crossingEV(exampleCrossing).toFixed(1)} points each time you send {exampleCrossing.count} adventurers. Here is the EV for every group size:</p>
+                    <div className="grid grid-cols-2 sm:grid-cols-5 gap-2 text-sm">
+                        {crossings.map(c => (
+                            <div key={c.count} className={`p-2 rounded text-center ${c.count === bestCrossing.count ? 'bg-green-100 font-bold' : 'bg-gray-50'}`}>
+                                {c.count} → {crossingEV(c).toFixed(1)} PP
+                            </div>
+                        ))}
+                    </div>
+                    <p>The one with the highest EV (sending {bestCrossing.count}) is mathematically the best choice in the long run.</p>
+                    <p>With <strong>Cross one at a time</strong> switched on, each of the k adventurers survives on their own with chance q = p^(1/k), so all k still make it with chance q^k = p. The number of survivors follows a <strong>binomial distribution</strong>: <code className="bg-gray-200 p-1 rounded">P(j survive) = C(k, j) × q^j × (1 − q)^(k − j)</code>, and on average k × q survive. Points are shared out per survivor, so the EV is q × reward + (1 − q) × penalty (give or take the rounding to whole points). Because q is bigger than p, this is never worse than the all-or-nothing crossing, and the results are much less extreme.</p>
+                    <p>In an <strong>Expedition</strong> you only get {EXPEDITION_CROSSINGS} crossings, so the best single crossing isn't always the best plan. We find the best plan by <strong>working backwards</strong>: first the best move when only one crossing is left, then the best move with two left (its EV plus the best you can do afterwards), and so on. This is called <strong>dynamic programming</strong>. For {bridge.totalAdventurers} adventurers the best plan sends {getOptimalSequence(plan, bridge.totalAdventurers, EXPEDITION_CROSSINGS).join(' → ')}, worth {plan.value[bridge.totalAdventurers][EXPEDITION_CROSSINGS].toFixed(1)} PP on average.</p>
                      <div className="mt-6 p-4 bg-blue-50 border-l-4 border-blue-400">
                         <h4 className="font-bold text-blue-800">Try This at Home!</h4>
                         <p className="text-blue-700">Play a game with a friend using a coin. Player A gets 1 point for heads. Player B gets 3 points for tails, but only if they correctly call "tails" before the flip. How do the probabilities and potential rewards influence who has the advantage?</p>
@@ -0,0 +1,45 @@
+import React from 'react';
+import { BridgeCrossingConfig } from '../../types';
+import { binomialDistribution } from '../../utils/probability';
+import { getAdventurerSurvivalChance, getSurvivorPayout } from '../../utils/bridge';
+
+interface SurvivorDistributionProps {
+  crossing: BridgeCrossingConfig;
+  highlight?: number; // survivors in the crossing that just happened
+}
+
+const SurvivorDistribution: React.FC<SurvivorDistributionProps> = ({ crossing, highlight }) => {
+  const chance = getAdventurerSurvivalChance(crossing);
+  const distribution = binomialDistribution(crossing.count, chance);
+  const tallest = Math.max(...distribution);
+  const mean = crossing.count * chance;
+
+  return (
+    <div>
+      <div className="flex items-end justify-center gap-1 h-32">
+        {distribution.map((p, survivors) => (
+          <div key={survivors} className="flex flex-col items-center justify-end h-full flex-1 max-w-[3rem]" title={`${survivors} survive: ${(p * 100).toFixed(1)}%`}>
+            <span className="text-[10px] text-gray-500">{(p * 100).toFixed(p < 0.1 ? 1 : 0)}%</span>
+            <div
+              className={`w-full rounded-t ${survivors === highlight ? 'bg-yellow-400' : 'bg-green-400'}`}
+              style={{ height: `${tallest > 0 ? (p / tallest) * 100 : 0}%` }}
+            ></div>
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-center gap-1 text-xs text-gray-600">
+        {distribution.map((_, survivors) => (
+          <div key={survivors} className="flex-1 max-w-[3rem] text-center">
+            <div className="font-semibold">{survivors}</div>
+            <div>{getSurvivorPayout(crossing.count, survivors, crossing.reward, crossing.penalty)}</div>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500 text-center mt-1">
+        Survivors (top) and points (bottom). On average {mean.toFixed(1)} of {crossing.count} make it.
+      </p>
+    </div>
+  );
+};
+
+export default SurvivorDistribution;
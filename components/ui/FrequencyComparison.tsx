@@ -0,0 +1,32 @@
+import React from 'react';
+import { FrequencyRow } from '../../utils/statistics';
+
+interface FrequencyComparisonProps {
+  rows: FrequencyRow[];
+}
+
+// Paired bars: the observed share of trials next to the configured probability.
+const FrequencyComparison: React.FC<FrequencyComparisonProps> = ({ rows }) => (
+  <div className="space-y-2">
+    {rows.map(row => (
+      <div key={row.label}>
+        <div className="flex justify-between text-xs text-gray-600">
+          <span className="font-semibold">{row.label} <span className="font-normal">({row.count})</span></span>
+          <span>
+            <span className="text-indigo-600">{(row.observed * 100).toFixed(1)}%</span>
+            {' vs '}
+            <span className="text-green-600">{(row.expected * 100).toFixed(1)}%</span>
+          </span>
+        </div>
+        <div className="w-full bg-gray-100 rounded h-2 mt-1">
+          <div className="bg-indigo-500 h-2 rounded" style={{ width: `${row.observed * 100}%` }}></div>
+        </div>
+        <div className="w-full bg-gray-100 rounded h-2 mt-0.5">
+          <div className="bg-green-500 h-2 rounded" style={{ width: `${row.expected * 100}%` }}></div>
+        </div>
+      </div>
+    ))}
+  </div>
+);
+
+export default FrequencyComparison;
@@ -0,0 +1,57 @@
+import React from 'react';
+
+interface RunningAverageChartProps {
+  averages: number[];
+  expected: number;
+  unit?: string;
+}
+
+const WIDTH = 300;
+const HEIGHT = 120;
+const PADDING = 8;
+const MAX_POINTS = 300;
+
+// Plots the running average of a series against its theoretical value, so the
+// gap between the two can be seen shrinking as trials pile up.
+const RunningAverageChart: React.FC<RunningAverageChartProps> = ({ averages, expected, unit = 'PP' }) => {
+  if (averages.length === 0) {
+    return <p className="text-sm text-gray-400 italic">No trials yet.</p>;
+  }
+
+  // Long series are thinned out so the SVG stays light.
+  const step = Math.max(1, Math.ceil(averages.length / MAX_POINTS));
+  const sampled = averages
+    .map((value, i) => ({ trial: i + 1, value }))
+    .filter(({ trial }) => trial % step === 0 || trial === averages.length);
+
+  const values = [...sampled.map(p => p.value), expected];
+  const spread = Math.max(...values) - Math.min(...values) || 1;
+  const min = Math.min(...values) - spread * 0.1;
+  const max = Math.max(...values) + spread * 0.1;
+
+  const x = (trial: number) => PADDING + ((trial - 1) / Math.max(averages.length - 1, 1)) * (WIDTH - 2 * PADDING);
+  const y = (value: number) => HEIGHT - PADDING - ((value - min) / (max - min)) * (HEIGHT - 2 * PADDING);
+
+  const last = averages[averages.length - 1];
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-32 bg-gray-50 rounded" role="img" aria-label="Running average compared with expected value">
+        <line x1={PADDING} x2={WIDTH - PADDING} y1={y(expected)} y2={y(expected)} stroke="#16a34a" strokeWidth="1.5" strokeDasharray="4 3" />
+        <polyline
+          fill="none"
+          stroke="#4f46e5"
+          strokeWidth="2"
+          points={sampled.map(p => `${x(p.trial)},${y(p.value)}`).join(' ')}
+        />
+      </svg>
+      <div className="flex justify-between text-xs mt-1">
+        <span className="text-indigo-600 font-semibold">Your average: {last.toFixed(2)} {unit}</span>
+        <span className="text-green-600 font-semibold">Expected: {expected.toFixed(2)} {unit}</span>
+      </div>
+      <p className="text-xs text-gray-500">Gap after {averages.length} trials: {Math.abs(last - expected).toFixed(2)} {unit}</p>
+    </div>
+  );
+};
+
+export default RunningAverageChart;
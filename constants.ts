@@ -1,5 +1,16 @@
 
-import { Game, GameCardInfo, LuckyBox, BadgeType, GameCase, GoalTarget } from './types';
+import { Game, GameCardInfo, LuckyBox, LuckyBoxItem, PityRule, BadgeType, BadgeDefinition, CaseDifficulty, GameCase, GoalTarget, BridgeCrossingConfig, BridgePreset, BridgeSettings, ContentPack } from './types';
+
+export const STARTING_POINTS = 1000;
+
+export const HIGH_ROLLER_POINTS = 2000;
+
+// Below this balance a player is bankrupt and offered the recovery options.
+export const BANKRUPTCY_THRESHOLD = 50;
+export const DAILY_ALLOWANCE = 200;
+export const QUIZ_REWARD = 50;
+
+export const PROFILE_AVATARS = ['🦊', '🐼', '🐸', '🦁', '🐙', '🦄', '🐢', '🐝', '🚀', '⭐', '🎸', '🌵'];
 
 export const GAME_CARDS: GameCardInfo[] = [
   {
@@ -44,15 +55,63 @@ export const GAME_CARDS: GameCardInfo[] = [
   },
 ];
 
-export const BADGE_DEFINITIONS: Record<BadgeType, { icon: string, description: string }> = {
-    [BadgeType.FirstWin]: { icon: '🎉', description: 'Win your first item from a Lucky Box!' },
-    [BadgeType.HighRoller]: { icon: '💰', description: 'Have over 2000 points' },
-    [BadgeType.SmartInvestor]: { icon: '🧠', description: 'Choose the box with the highest expected value' },
-    [BadgeType.MasterDetective]: { icon: '🔎', description: 'Correctly identify the thief!' },
-    [BadgeType.BridgeMaster]: { icon: '🏆', description: 'Successfully cross the bridge with max rewards' },
-    [BadgeType.GoldenBoot]: { icon: '👟', description: 'Score a top-corner goal' },
+export const BADGE_DEFINITIONS: Record<BadgeType, BadgeDefinition> = {
+    [BadgeType.FirstWin]: {
+        icon: '🎉',
+        description: 'Win your first item from a Lucky Box!',
+        criterion: { kind: 'events', eventType: 'lucky-box-opened', count: 1 },
+    },
+    [BadgeType.HighRoller]: {
+        icon: '💰',
+        description: `Reach ${HIGH_ROLLER_POINTS} points`,
+        criterion: { kind: 'points', atLeast: HIGH_ROLLER_POINTS },
+    },
+    [BadgeType.SmartInvestor]: {
+        icon: '🧠',
+        description: 'Choose the box with the highest expected value',
+        criterion: { kind: 'events', eventType: 'lucky-box-opened', count: 1, where: { wasBestExpectedValue: true } },
+    },
+    [BadgeType.MasterDetective]: {
+        icon: '🔎',
+        description: 'Correctly identify the thief!',
+        criterion: { kind: 'events', eventType: 'suspect-accused', count: 1, where: { correct: true } },
+    },
+    [BadgeType.BridgeMaster]: {
+        icon: '🏆',
+        description: 'Successfully cross the bridge with max rewards',
+        criterion: { kind: 'events', eventType: 'bridge-crossing', count: 1, where: { success: true, count: { sameAs: 'totalAdventurers' } } },
+    },
+    [BadgeType.GoldenBoot]: {
+        icon: '👟',
+        description: 'Score a top-corner goal',
+        criterion: { kind: 'events', eventType: 'goal-shot', count: 1, where: { scored: true, targetId: ['top-left', 'top-right'] } },
+    },
+    [BadgeType.Sharpshooter]: {
+        icon: '🎯',
+        description: 'Score 10 goals',
+        criterion: { kind: 'events', eventType: 'goal-shot', count: 10, where: { scored: true } },
+    },
+    [BadgeType.AllRounder]: {
+        icon: '🌟',
+        description: 'Win a round in every game',
+        criterion: {
+            kind: 'all',
+            criteria: [
+                { kind: 'events', eventType: 'lucky-box-opened', count: 1 },
+                { kind: 'events', eventType: 'suspect-accused', count: 1, where: { correct: true } },
+                { kind: 'events', eventType: 'bridge-crossing', count: 1, where: { success: true } },
+                { kind: 'events', eventType: 'goal-shot', count: 1, where: { scored: true } },
+            ],
+        },
+    },
 };
 
+export const LUCKY_BOX_RARITIES: LuckyBoxItem['rarity'][] = ['common', 'uncommon', 'rare', 'legendary'];
+
+export const CASE_DIFFICULTIES: CaseDifficulty[] = ['easy', 'medium', 'hard'];
+
+export const DEFAULT_PITY_RULE: PityRule = { enabled: false, threshold: 20 };
+
 export const LUCKY_BOXES: LuckyBox[] = [
     {
         id: 1,
@@ -95,6 +154,7 @@ export const GAME_CASES: GameCase[] = [
         title: 'The Case of the Missing Cake',
         story: 'Disaster! Someone has stolen the prized Victoria Sponge from the mansion kitchen just before the annual bake-off. We have a list of suspects, but we need your help to find the culprit!',
         guiltySuspectId: 'butler',
+        difficulty: 'easy',
         suspects: [
             { id: 'chef', name: 'Chef Usman', avatar: '👨‍🍳', attributes: { hasKitchenAccess: true, hasCrumbs: false, motive: 'rivalry' }},
             { id: 'butler', name: 'Ramzan the Butler', avatar: '🤵', attributes: { hasKitchenAccess: true, hasCrumbs: true, motive: 'hunger' }},
@@ -103,7 +163,7 @@ export const GAME_CASES: GameCase[] = [
             { id: 'countess', name: 'Ramisha', avatar: '👑', attributes: { hasKitchenAccess: false, hasCrumbs: false, motive: 'sabotage' }},
         ],
         clues: [
-            { id: 1, attribute: 'hasKitchenAccess', texts: {
+            { id: 1, attribute: 'hasKitchenAccess', reliability: 0.8, texts: {
                 'true': 'A witness confirms the thief had access to the kitchen.',
                 'false': 'Security footage shows the thief did not enter the kitchen.'
             }},
@@ -119,11 +179,77 @@ export const GAME_CASES: GameCase[] = [
                 'distraction': 'The thief seemed to be creating a diversion to cover up another mistake.'
             }},
         ]
+    },
+    {
+        id: 'case-02',
+        title: 'The Vanishing Violin',
+        story: 'Minutes before the school concert, the orchestra\'s antique violin disappeared from the music room. Six musicians were backstage, and the string players warm up in that very room. Can you work out who took it before the curtain goes up?',
+        guiltySuspectId: 'cellist',
+        difficulty: 'medium',
+        suspects: [
+            { id: 'violinist', name: 'Zara the Violinist', avatar: '🎻', attributes: { wearsGlasses: false, hand: 'right', section: 'strings' }, prior: 2 },
+            { id: 'cellist', name: 'Omar the Cellist', avatar: '🎼', attributes: { wearsGlasses: true, hand: 'right', section: 'strings' }, prior: 2 },
+            { id: 'trumpeter', name: 'Lina the Trumpeter', avatar: '🎺', attributes: { wearsGlasses: true, hand: 'right', section: 'brass' }},
+            { id: 'drummer', name: 'Kofi the Drummer', avatar: '🥁', attributes: { wearsGlasses: false, hand: 'left', section: 'percussion' }},
+            { id: 'harpist', name: 'Mei the Harpist', avatar: '🪕', attributes: { wearsGlasses: true, hand: 'left', section: 'strings' }, prior: 2 },
+            { id: 'conductor', name: 'Mr. Haider the Conductor', avatar: '🎩', attributes: { wearsGlasses: false, hand: 'right', section: 'brass' }},
+        ],
+        clues: [
+            { id: 1, attribute: 'section', texts: {
+                'strings': 'Rosin dust on the case means the thief plays a string instrument.',
+                'brass': 'A smear of valve oil on the case points to a brass player.',
+                'percussion': 'Drumstick scuffs on the door suggest someone from percussion.'
+            }},
+            { id: 2, attribute: 'wearsGlasses', reliability: 0.9, texts: {
+                'true': 'A glasses cleaning cloth was dropped next to the empty stand.',
+                'false': 'The caretaker saw the thief squinting. They weren\'t wearing glasses.'
+            }},
+            { id: 3, attribute: 'hand', texts: {
+                'right': 'The handwriting on the fake "back soon" note is right-handed.',
+                'left': 'The smudges on the note show it was written left-handed.'
+            }},
+        ]
+    },
+    {
+        id: 'case-03',
+        title: 'The Great Cookie Heist',
+        story: 'The jar of prize-winning cookies for the school fair is empty! Eight students were in the hall at lunchtime. The clues are subtle, so think carefully about who is still in the running.',
+        guiltySuspectId: 'dev',
+        difficulty: 'hard',
+        suspects: [
+            { id: 'ayesha', name: 'Ayesha', avatar: '👧', attributes: { hasBackpack: true, shoeSize: 'small', favouriteColour: 'red', wasAtPractice: false }},
+            { id: 'bilal', name: 'Bilal', avatar: '👦', attributes: { hasBackpack: true, shoeSize: 'large', favouriteColour: 'blue', wasAtPractice: true }},
+            { id: 'chen', name: 'Chen', avatar: '🧒', attributes: { hasBackpack: false, shoeSize: 'small', favouriteColour: 'green', wasAtPractice: true }},
+            { id: 'dev', name: 'Dev', avatar: '👦', attributes: { hasBackpack: true, shoeSize: 'small', favouriteColour: 'blue', wasAtPractice: false }},
+            { id: 'elena', name: 'Elena', avatar: '👩', attributes: { hasBackpack: false, shoeSize: 'large', favouriteColour: 'red', wasAtPractice: false }},
+            { id: 'farhan', name: 'Farhan', avatar: '🧑', attributes: { hasBackpack: true, shoeSize: 'large', favouriteColour: 'green', wasAtPractice: false }},
+            { id: 'grace', name: 'Grace', avatar: '👧', attributes: { hasBackpack: false, shoeSize: 'small', favouriteColour: 'blue', wasAtPractice: true }},
+            { id: 'hamza', name: 'Hamza', avatar: '🧒', attributes: { hasBackpack: true, shoeSize: 'small', favouriteColour: 'blue', wasAtPractice: true }},
+        ],
+        clues: [
+            { id: 1, attribute: 'hasBackpack', texts: {
+                'true': 'Crumbs were found along a path only someone carrying a backpack would take.',
+                'false': 'The jar was carried out by hand. The thief had no backpack.'
+            }},
+            { id: 2, attribute: 'shoeSize', texts: {
+                'small': 'A small footprint was left in the spilled flour.',
+                'large': 'A large footprint was left in the spilled flour.'
+            }},
+            { id: 3, attribute: 'favouriteColour', texts: {
+                'red': 'A red thread was caught on the jar lid.',
+                'blue': 'A blue thread was caught on the jar lid.',
+                'green': 'A green thread was caught on the jar lid.'
+            }},
+            { id: 4, attribute: 'wasAtPractice', reliability: 0.75, texts: {
+                'true': 'The thief smelled of the football pitch. They had come from practice.',
+                'false': 'The coach confirms the thief was not at football practice.'
+            }},
+        ]
     }
 ];
 
 export const TOTAL_ADVENTURERS = 10;
-export const SURVIVAL_BRIDGE_CONFIG = [
+export const SURVIVAL_BRIDGE_CONFIG: BridgeCrossingConfig[] = [
   { count: 1, probability: 0.99, reward: 20, penalty: 0 },
   { count: 2, probability: 0.95, reward: 40, penalty: -10 },
   { count: 3, probability: 0.90, reward: 60, penalty: -20 },
@@ -136,6 +262,67 @@ export const SURVIVAL_BRIDGE_CONFIG = [
   { count: 10, probability: 0.10, reward: 500, penalty: -250 },
 ];
 
+export const DEFAULT_BRIDGE_SETTINGS: BridgeSettings = { tableId: 'pack', custom: null };
+
+export const BRIDGE_PRESETS: BridgePreset[] = [
+  {
+    id: 'gentle',
+    name: 'Gentle',
+    description: 'Six adventurers and small penalties. A good first bridge.',
+    bridge: {
+      totalAdventurers: 6,
+      crossings: [
+        { count: 1, probability: 0.98, reward: 20, penalty: 0 },
+        { count: 2, probability: 0.95, reward: 40, penalty: -5 },
+        { count: 3, probability: 0.90, reward: 60, penalty: -10 },
+        { count: 4, probability: 0.85, reward: 80, penalty: -15 },
+        { count: 5, probability: 0.78, reward: 100, penalty: -20 },
+        { count: 6, probability: 0.70, reward: 120, penalty: -30 },
+      ],
+    },
+  },
+  {
+    id: 'daredevil',
+    name: 'Daredevil',
+    description: 'Rewards grow fast, so the best average comes from big, risky groups.',
+    bridge: {
+      totalAdventurers: 10,
+      crossings: [
+        { count: 1, probability: 0.95, reward: 10, penalty: -5 },
+        { count: 2, probability: 0.90, reward: 25, penalty: -10 },
+        { count: 3, probability: 0.85, reward: 45, penalty: -15 },
+        { count: 4, probability: 0.78, reward: 70, penalty: -20 },
+        { count: 5, probability: 0.70, reward: 100, penalty: -30 },
+        { count: 6, probability: 0.62, reward: 140, penalty: -40 },
+        { count: 7, probability: 0.55, reward: 190, penalty: -50 },
+        { count: 8, probability: 0.47, reward: 250, penalty: -60 },
+        { count: 9, probability: 0.40, reward: 320, penalty: -70 },
+        { count: 10, probability: 0.33, reward: 400, penalty: -80 },
+      ],
+    },
+  },
+  {
+    id: 'same-average',
+    name: 'Same Average',
+    description: 'Every group size is worth about 40 PP on average. The only difference is how risky it is.',
+    bridge: {
+      totalAdventurers: 10,
+      crossings: [
+        { count: 1, probability: 0.99, reward: 41, penalty: -10 },
+        { count: 2, probability: 0.90, reward: 46, penalty: -10 },
+        { count: 3, probability: 0.80, reward: 53, penalty: -10 },
+        { count: 4, probability: 0.70, reward: 61, penalty: -10 },
+        { count: 5, probability: 0.60, reward: 73, penalty: -10 },
+        { count: 6, probability: 0.50, reward: 90, penalty: -10 },
+        { count: 7, probability: 0.40, reward: 115, penalty: -10 },
+        { count: 8, probability: 0.30, reward: 157, penalty: -10 },
+        { count: 9, probability: 0.20, reward: 240, penalty: -10 },
+        { count: 10, probability: 0.10, reward: 490, penalty: -10 },
+      ],
+    },
+  },
+];
+
 export const GOAL_TARGETS: GoalTarget[] = [
   { id: 'top-left', name: 'Top Left', probability: 0.50, reward: 150, penalty: -15, gridArea: 'top-left' },
   { id: 'top-center', name: 'Top Center', probability: 0.80, reward: 50, penalty: -15, gridArea: 'top-center' },
@@ -143,4 +330,17 @@ export const GOAL_TARGETS: GoalTarget[] = [
   { id: 'bottom-left', name: 'Bottom Left', probability: 0.75, reward: 75, penalty: -10, gridArea: 'bottom-left' },
   { id: 'bottom-center', name: 'Bottom Center', probability: 0.95, reward: 25, penalty: -10, gridArea: 'bottom-center' },
   { id: 'bottom-right', name: 'Bottom Right', probability: 0.75, reward: 75, penalty: -10, gridArea: 'bottom-right' },
-];
\ No newline at end of file
+];
+
+export const CONTENT_PACK_FORMAT_VERSION = 1;
+
+export const DEFAULT_CONTENT_PACK: ContentPack = {
+  id: 'built-in',
+  name: 'Chance Champions Classic',
+  description: 'The original boxes, mystery, bridge and goal.',
+  formatVersion: CONTENT_PACK_FORMAT_VERSION,
+  luckyBoxes: LUCKY_BOXES,
+  gameCases: GAME_CASES,
+  survivalBridge: { totalAdventurers: TOTAL_ADVENTURERS, crossings: SURVIVAL_BRIDGE_CONFIG },
+  goalTargets: GOAL_TARGETS,
+};
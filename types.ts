@@ -13,7 +13,9 @@ export enum BadgeType {
     SmartInvestor = 'Smart Investor',
     MasterDetective = 'Master Detective',
     BridgeMaster = 'Bridge Master',
-    GoldenBoot = 'Golden Boot'
+    GoldenBoot = 'Golden Boot',
+    Sharpshooter = 'Sharpshooter',
+    AllRounder = 'All-Rounder'
 }
 
 export interface GameCardInfo {
@@ -32,33 +34,54 @@ export interface LuckyBoxItem {
     rarity: 'common' | 'uncommon' | 'rare' | 'legendary';
 }
 
+// Pack boxes have numeric ids; boxes from the designer use "custom-…" strings
+// so they can never share an id with a pack's box.
+export type LuckyBoxId = number | string;
+
 export interface LuckyBox {
-    id: number;
+    id: LuckyBoxId;
     name: string;
     price: number;
     items: LuckyBoxItem[];
     color: string;
 }
 
+// Teacher setting: if a box goes `threshold - 1` opens in a row without an
+// item of its top rarity, the next open is guaranteed to give one.
+export interface PityRule {
+    enabled: boolean;
+    threshold: number;
+}
+
+// A box made in the shop's box designer. Saved on the device, so every
+// player can try to work out whether it's fair.
+export interface CustomLuckyBox extends LuckyBox {
+    id: string;
+    designedBy: string;
+}
+
 // Types for Find The Thief
 export interface Suspect {
     id: string;
     name: string;
     avatar: string;
     attributes: Record<string, boolean | string>;
+    prior?: number; // relative weight before any clues; 1 when missing
 }
 
 export interface ClueTemplate {
     id: number;
     attribute: string; 
     texts: Record<string, string>;
+    reliability?: number; // chance the clue tells the truth; 1 when missing
 }
 
 export interface Clue {
     id: number;
     text: string;
     attribute: string; 
-    expectedValue: boolean | string;
+    expectedValue: boolean | string; // the value the clue states, which may be wrong
+    reliability?: number;
 }
 
 export interface GameCase {
@@ -68,9 +91,14 @@ export interface GameCase {
     suspects: Suspect[];
     clues: ClueTemplate[];
     guiltySuspectId: string;
+    difficulty?: CaseDifficulty; // worked out from the case when left out
 }
 
+export type CaseDifficulty = 'easy' | 'medium' | 'hard';
+
 // Types for Goal or Miss
+export type KeeperDive = 'left' | 'center' | 'right';
+
 export interface GoalTarget {
   id: string;
   name: string;
@@ -78,4 +106,216 @@ export interface GoalTarget {
   reward: number;
   penalty: number;
   gridArea: string; // for CSS grid-area
-}
\ No newline at end of file
+}
+// Types for Survival Bridge
+export interface BridgeCrossingConfig {
+  count: number;
+  probability: number;
+  reward: number;
+  penalty: number;
+}
+
+export interface SurvivalBridgeConfig {
+  totalAdventurers: number;
+  crossings: BridgeCrossingConfig[];
+}
+
+// A ready-made bridge table a teacher can switch to
+export interface BridgePreset {
+  id: string;
+  name: string;
+  description: string;
+  bridge: SurvivalBridgeConfig;
+}
+
+// Teacher setting: which bridge table the game uses. `tableId` is 'pack' for
+// the active content pack's table, 'custom' for the one made in the table
+// editor, or the id of a preset.
+export interface BridgeSettings {
+  tableId: string;
+  custom: SurvivalBridgeConfig | null;
+}
+
+// Types for content packs
+export interface ContentPack {
+  id: string;
+  name: string;
+  description: string;
+  formatVersion: number;
+  luckyBoxes: LuckyBox[];
+  gameCases: GameCase[];
+  survivalBridge: SurvivalBridgeConfig;
+  goalTargets: GoalTarget[];
+}
+
+export interface ContentLibrary {
+  activePackId: string;
+  packs: ContentPack[]; // imported packs; the built-in pack is always available
+}
+
+// Types for game outcome events
+export interface LuckyBoxOpenedOutcome {
+  type: 'lucky-box-opened';
+  boxId: LuckyBoxId;
+  boxName: string;
+  price: number;
+  item: LuckyBoxItem;
+  wasBestExpectedValue: boolean;
+  // Items used to be paid out in points straight away; now they go to the
+  // player's inventory and are paid out when sold.
+  addedToInventory: boolean;
+  pityApplied?: boolean; // missing on events from before the pity rule existed
+}
+
+export interface LuckyBoxItemSoldOutcome {
+  type: 'lucky-box-item-sold';
+  inventoryId: string;
+  itemName: string;
+  value: number;
+}
+
+export interface GoalShotOutcome {
+  type: 'goal-shot';
+  targetId: string;
+  targetName: string;
+  probability: number;
+  scored: boolean;
+  reward: number;
+  penalty: number;
+  // Set when a goalkeeper was in goal; `probability` is then the chance of
+  // scoring given where the keeper dived.
+  keeperDive?: KeeperDive;
+  // Set in skill practice, where `probability` is the shooter's own hidden
+  // accuracy for this target rather than the target's listed chance.
+  skill?: boolean;
+}
+
+export interface BridgeCrossingOutcome {
+  type: 'bridge-crossing';
+  count: number;
+  totalAdventurers: number;
+  probability: number;
+  success: boolean;
+  reward: number;
+  penalty: number;
+  // Set when each adventurer crossed on their own; `probability` is then each
+  // adventurer's chance of surviving, and the reward and penalty are shared
+  // out per survivor and per lost adventurer.
+  survivors?: number;
+}
+
+export interface SuspectAccusedOutcome {
+  type: 'suspect-accused';
+  caseId: string;
+  accusedSuspectId: string;
+  guiltySuspectId: string;
+  correct: boolean;
+  cluesRevealed: Clue[];
+  reward: number;
+  penalty: number;
+}
+
+// Points paid out by the bank rather than won in a game
+export interface AllowanceClaimedOutcome {
+  type: 'allowance-claimed';
+  amount: number;
+}
+
+export interface QuizAnsweredOutcome {
+  type: 'quiz-answered';
+  question: string;
+  answer: string;
+  correct: boolean;
+  reward: number;
+}
+
+export interface PointsResetOutcome {
+  type: 'points-reset';
+  pointsBefore: number;
+  pointsAfter: number;
+}
+
+// A round saved before the ledger existed, when history only recorded how
+// many points each round won or lost.
+export interface LegacyRoundOutcome {
+  type: 'legacy-round';
+  pointsChange: number;
+}
+
+export type GameOutcome =
+  | LuckyBoxOpenedOutcome
+  | LuckyBoxItemSoldOutcome
+  | GoalShotOutcome
+  | BridgeCrossingOutcome
+  | SuspectAccusedOutcome
+  | AllowanceClaimedOutcome
+  | QuizAnsweredOutcome
+  | PointsResetOutcome
+  | LegacyRoundOutcome;
+
+export type GameEvent = GameOutcome & {
+  id: string;
+  game: Game | null; // null for bank events
+  timestamp: number;
+};
+
+export interface QuizQuestion {
+  prompt: string;
+  choices: string[];
+  answerIndex: number;
+  explanation: string;
+}
+
+// Types for saved player progress
+export interface PlayerProfile {
+  id: string;
+  name: string;
+  avatar: string;
+  points: number;
+  badges: BadgeType[];
+  isMuted: boolean;
+  history: GameEvent[];
+  inventory: InventoryItem[];
+}
+
+// An item won from a lucky box and not yet sold back
+export interface InventoryItem {
+  id: string; // id of the event that won it
+  boxId: LuckyBoxId;
+  boxName: string;
+  item: LuckyBoxItem;
+}
+
+export interface SaveState {
+  activeProfileId: string | null;
+  profiles: PlayerProfile[];
+}
+
+// Types for badge rules
+// A condition on one field of an event: an exact value, one of several values,
+// a minimum, or "equal to another field of the same event".
+export type EventFieldCondition =
+  | string
+  | number
+  | boolean
+  | Array<string | number | boolean>
+  | { atLeast: number }
+  | { sameAs: string };
+
+export type BadgeCriterion =
+  | { kind: 'points'; atLeast: number }
+  | { kind: 'events'; eventType: GameOutcome['type']; count: number; where?: Record<string, EventFieldCondition> }
+  | { kind: 'all'; criteria: BadgeCriterion[] };
+
+export interface BadgeDefinition {
+  icon: string;
+  description: string;
+  criterion: BadgeCriterion;
+}
+
+export interface BadgeProgress {
+  current: number;
+  target: number;
+  unit: string;
+  complete: boolean;
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { BadgeCriterion, Game, GameEvent } from '../types';
+import { getCriterionProgress } from './badges';
+import { createProfile } from './storage';
+
+const shot = (id: string, targetId: string, scored: boolean): GameEvent => ({
+    type: 'goal-shot', targetId, targetName: targetId, probability: 0.5, scored, reward: 20, penalty: -10,
+    id, game: Game.GoalOrMiss, timestamp: 0,
+});
+
+const profile = {
+    ...createProfile('Test', '🙂'),
+    history: [shot('1', 'top-left', true), shot('2', 'top-right', false), shot('3', 'bottom-center', true)],
+};
+
+describe('getCriterionProgress', () => {
+    it('matches exact values and lists of values', () => {
+        const corners: BadgeCriterion = { kind: 'events', eventType: 'goal-shot', count: 3, where: { scored: true, targetId: ['top-left', 'top-right'] } };
+        expect(getCriterionProgress(corners, profile)).toMatchObject({ current: 1, complete: false });
+    });
+
+    it('matches minimums and fields equal to other fields', () => {
+        const rich: BadgeCriterion = { kind: 'events', eventType: 'goal-shot', count: 3, where: { reward: { atLeast: 20 } } };
+        expect(getCriterionProgress(rich, profile)).toMatchObject({ current: 3, complete: true });
+        const sameName: BadgeCriterion = { kind: 'events', eventType: 'goal-shot', count: 1, where: { targetName: { sameAs: 'targetId' } } };
+        expect(getCriterionProgress(sameName, profile)).toMatchObject({ current: 1, complete: true });
+    });
+});
@@ -0,0 +1,54 @@
+// Evaluates the badge rules in BADGE_DEFINITIONS against a player's points and
+// event ledger. Games never award badges themselves: new badges, tiers and
+// multi-step goals are added by editing the definitions only.
+
+import { BadgeCriterion, BadgeProgress, BadgeType, EventFieldCondition, GameEvent, PlayerProfile } from '../types';
+import { BADGE_DEFINITIONS } from '../constants';
+
+const matchesCondition = (event: GameEvent, field: string, condition: EventFieldCondition): boolean => {
+    // Rules name fields as text, so read the event as a plain record.
+    const fields: Readonly<Record<string, unknown>> = { ...event };
+    const value = fields[field];
+    if (Array.isArray(condition)) return condition.some(option => option === value);
+    if (typeof condition === 'object') {
+        if ('atLeast' in condition) return typeof value === 'number' && value >= condition.atLeast;
+        return value === fields[condition.sameAs];
+    }
+    return value === condition;
+};
+
+const matchesEvent = (event: GameEvent, criterion: Extract<BadgeCriterion, { kind: 'events' }>): boolean =>
+    event.type === criterion.eventType
+    && Object.entries(criterion.where ?? {}).every(([field, condition]) => matchesCondition(event, field, condition));
+
+export const getCriterionProgress = (criterion: BadgeCriterion, profile: PlayerProfile): BadgeProgress => {
+    switch (criterion.kind) {
+        case 'points': {
+            const current = Math.min(profile.points, criterion.atLeast);
+            return { current, target: criterion.atLeast, unit: 'PP', complete: profile.points >= criterion.atLeast };
+        }
+        case 'events': {
+            const matches = profile.history.filter(event => matchesEvent(event, criterion)).length;
+            return { current: Math.min(matches, criterion.count), target: criterion.count, unit: '', complete: matches >= criterion.count };
+        }
+        case 'all': {
+            const completed = criterion.criteria.filter(c => getCriterionProgress(c, profile).complete).length;
+            return { current: completed, target: criterion.criteria.length, unit: 'steps', complete: completed === criterion.criteria.length };
+        }
+    }
+};
+
+export const getBadgeProgress = (badge: BadgeType, profile: PlayerProfile): BadgeProgress => {
+    const progress = getCriterionProgress(BADGE_DEFINITIONS[badge].criterion, profile);
+    // Earned badges stay earned even if, say, the player's points drop later.
+    return profile.badges.includes(badge) ? { ...progress, current: progress.target, complete: true } : progress;
+};
+
+// Adds every badge whose rule is now met. Returns the same profile object when
+// nothing changed so callers can skip needless re-renders.
+export const awardBadges = (profile: PlayerProfile): PlayerProfile => {
+    const newBadges = (Object.keys(BADGE_DEFINITIONS) as BadgeType[]).filter(badge =>
+        !profile.badges.includes(badge) && getCriterionProgress(BADGE_DEFINITIONS[badge].criterion, profile).complete
+    );
+    return newBadges.length > 0 ? { ...profile, badges: [...profile.badges, ...newBadges] } : profile;
+};
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { Clue, GameCase } from '../types';
+import { bayesStep, entropy, forecastClue, getBayesSteps, getClueLikelihood, getPosteriors, getPriors } from './bayes';
+
+// Ana is three times as likely as Ben to begin with; only Ana wears a hat.
+const twoSuspects: GameCase = {
+    id: 'test-case',
+    title: 'Test Case',
+    story: '',
+    suspects: [
+        { id: 'ana', name: 'Ana', avatar: '👩', attributes: { wearsHat: true, coat: 'red' }, prior: 3 },
+        { id: 'ben', name: 'Ben', avatar: '👨', attributes: { wearsHat: false, coat: 'blue' }, prior: 1 },
+    ],
+    clues: [
+        { id: 1, attribute: 'wearsHat', texts: { true: 'They wore a hat.', false: 'They had no hat.' } },
+        { id: 2, attribute: 'coat', texts: { red: 'A red coat.', blue: 'A blue coat.', green: 'A green coat.' }, reliability: 0.8 },
+    ],
+    guiltySuspectId: 'ana',
+};
+
+const hatClue = (reliability?: number): Clue => ({ id: 1, text: 'They wore a hat.', attribute: 'wearsHat', expectedValue: true, reliability });
+const redCoat: Clue = { id: 2, text: 'A red coat.', attribute: 'coat', expectedValue: 'red', reliability: 0.8 };
+
+describe('getPriors', () => {
+    it('rescales prior weights to add up to 1', () => {
+        expect(getPriors(twoSuspects.suspects)).toEqual([0.75, 0.25]);
+        const unweighted = twoSuspects.suspects.map(({ prior, ...suspect }) => suspect);
+        expect(getPriors(unweighted)).toEqual([0.5, 0.5]);
+    });
+});
+
+describe('bayesStep', () => {
+    it('rules out a suspect a certain clue contradicts', () => {
+        const step = bayesStep(twoSuspects, [0.75, 0.25], hatClue());
+        expect(step.evidence).toBeCloseTo(0.75);
+        expect(step.rows.map(row => row.posterior)).toEqual([1, 0]);
+    });
+
+    it('works through a clue that is right 80% of the time', () => {
+        // Joint: 0.75 × 0.8 = 0.6 and 0.25 × 0.2 = 0.05, so P(clue) = 0.65
+        const step = bayesStep(twoSuspects, [0.75, 0.25], hatClue(0.8));
+        expect(step.rows.map(row => row.likelihood)).toEqual([0.8, expect.closeTo(0.2)]);
+        expect(step.evidence).toBeCloseTo(0.65);
+        expect(step.rows[0].posterior).toBeCloseTo(12 / 13);
+        expect(step.rows[1].posterior).toBeCloseTo(1 / 13);
+    });
+
+    it('keeps the priors when no suspect could have produced the clue', () => {
+        const greenCoat: Clue = { ...redCoat, text: 'A green coat.', expectedValue: 'green', reliability: 1 };
+        const step = bayesStep(twoSuspects, [0.75, 0.25], greenCoat);
+        expect(step.evidence).toBe(0);
+        expect(step.rows.map(row => row.posterior)).toEqual([0.75, 0.25]);
+    });
+});
+
+describe('getClueLikelihood', () => {
+    it('splits an unreliable clue between the other values', () => {
+        // Three coat colours: right with chance 0.8, each wrong one with 0.1
+        expect(getClueLikelihood(twoSuspects, redCoat, twoSuspects.suspects[0])).toBe(0.8);
+        expect(getClueLikelihood(twoSuspects, redCoat, twoSuspects.suspects[1])).toBeCloseTo(0.1);
+    });
+});
+
+describe('getPosteriors', () => {
+    it('chains updates from the priors through each clue', () => {
+        // After the hat clue Ana is 12/13; the coat clue then gives
+        // (12/13 × 0.8) ÷ (12/13 × 0.8 + 1/13 × 0.1) = 96/97
+        const clues = [hatClue(0.8), redCoat];
+        expect(getBayesSteps(twoSuspects, clues)).toHaveLength(2);
+        const [ana, ben] = getPosteriors(twoSuspects, clues);
+        expect(ana).toBeCloseTo(96 / 97);
+        expect(ben).toBeCloseTo(1 / 97);
+        expect(getPosteriors(twoSuspects, [])).toEqual([0.75, 0.25]);
+    });
+});
+
+describe('entropy', () => {
+    it('measures uncertainty in bits', () => {
+        expect(entropy([1, 0])).toBe(0);
+        expect(entropy([0.5, 0.5])).toBe(1);
+        expect(entropy([0.25, 0.25, 0.25, 0.25])).toBe(2);
+    });
+});
+
+describe('forecastClue', () => {
+    const [hatTemplate, coatTemplate] = twoSuspects.clues;
+
+    it('expects a certain clue to settle the case', () => {
+        // The hat clue says "true" with chance 0.75 and "false" with 0.25, and
+        // either answer leaves one suspect.
+        const forecast = forecastClue(twoSuspects, [0.75, 0.25], hatTemplate);
+        expect(forecast.outcomes.map(o => [o.value, o.probability])).toEqual([['true', 0.75], ['false', 0.25]]);
+        expect(forecast.expectedSuspectsRemaining).toBeCloseTo(1);
+        expect(forecast.expectedEntropy).toBeCloseTo(0);
+        // −0.75 log2 0.75 − 0.25 log2 0.25
+        expect(forecast.informationGain).toBeCloseTo(0.8113, 4);
+    });
+
+    it('weighs every answer an unreliable clue could give', () => {
+        // Red and blue each come up with chance 0.5 × 0.8 + 0.5 × 0.1 = 0.45
+        // and leave 8/9 on one suspect; green (0.1) changes nothing.
+        const forecast = forecastClue(twoSuspects, [0.5, 0.5], coatTemplate);
+        expect(forecast.outcomes.map(o => o.probability)).toEqual([expect.closeTo(0.45), expect.closeTo(0.45), expect.closeTo(0.1)]);
+        expect(forecast.outcomes[0].posteriors[0]).toBeCloseTo(8 / 9);
+        expect(forecast.expectedSuspectsRemaining).toBeCloseTo(2);
+        // 0.9 × H(1/9, 8/9) + 0.1 × 1
+        expect(forecast.expectedEntropy).toBeCloseTo(0.5529, 4);
+        expect(forecast.informationGain).toBeCloseTo(1 - 0.5529, 4);
+    });
+});
@@ -0,0 +1,97 @@
+// Bayes' theorem for Find the Thief. Each suspect starts with a prior; each
+// clue multiplies it by the likelihood of seeing that clue if they were the
+// culprit, and the results are rescaled to add up to 1:
+//
+//   P(suspect | clue) = P(suspect) × P(clue | suspect) ÷ P(clue)
+//
+// A clue with reliability r states the culprit's real attribute with chance r,
+// and otherwise one of the other k - 1 values, each equally likely.
+
+import { Clue, ClueTemplate, GameCase, Suspect } from '../types';
+
+export interface BayesRow {
+    suspect: Suspect;
+    prior: number;
+    likelihood: number;
+    joint: number; // prior × likelihood
+    posterior: number;
+}
+
+export interface BayesStep {
+    clue: Clue;
+    rows: BayesRow[];
+    evidence: number; // P(clue) = Σ prior × likelihood
+}
+
+export const getClueReliability = (clue: { reliability?: number }): number => clue.reliability ?? 1;
+
+// Priors are relative weights; suspects without one count as 1.
+export const getPriors = (suspects: readonly Suspect[]): number[] => {
+    const weights = suspects.map(s => s.prior ?? 1);
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    return weights.map(w => (total > 0 ? w / total : 1 / suspects.length));
+};
+
+export const getClueLikelihood = (gameCase: GameCase, clue: Clue, suspect: Suspect): number => {
+    const reliability = getClueReliability(clue);
+    const template = gameCase.clues.find(c => c.id === clue.id);
+    const valueCount = template ? Object.keys(template.texts).length : 2;
+    const matches = String(suspect.attributes[clue.attribute]) === String(clue.expectedValue);
+    if (matches) return reliability;
+    return valueCount > 1 ? (1 - reliability) / (valueCount - 1) : 0;
+};
+
+export const bayesStep = (gameCase: GameCase, priors: readonly number[], clue: Clue): BayesStep => {
+    const partial = gameCase.suspects.map((suspect, i) => {
+        const likelihood = getClueLikelihood(gameCase, clue, suspect);
+        return { suspect, prior: priors[i], likelihood, joint: priors[i] * likelihood };
+    });
+    const evidence = partial.reduce((sum, row) => sum + row.joint, 0);
+    // A clue nobody could have produced tells us nothing, so keep the priors.
+    const rows = partial.map(row => ({ ...row, posterior: evidence > 0 ? row.joint / evidence : row.prior }));
+    return { clue, rows, evidence };
+};
+
+// Every update from the priors through the revealed clues, in order.
+export const getBayesSteps = (gameCase: GameCase, clues: readonly Clue[]): BayesStep[] => {
+    const steps: BayesStep[] = [];
+    let current = getPriors(gameCase.suspects);
+    clues.forEach(clue => {
+        const step = bayesStep(gameCase, current, clue);
+        steps.push(step);
+        current = step.rows.map(row => row.posterior);
+    });
+    return steps;
+};
+
+export const getPosteriors = (gameCase: GameCase, clues: readonly Clue[]): number[] => {
+    const steps = getBayesSteps(gameCase, clues);
+    return steps.length > 0 ? steps[steps.length - 1].rows.map(row => row.posterior) : getPriors(gameCase.suspects);
+};
+
+// Shannon entropy in bits: 0 when we're certain, log2(n) when n suspects are
+// equally likely.
+export const entropy = (probabilities: readonly number[]): number =>
+    probabilities.reduce((sum, p) => (p > 0 ? sum - p * Math.log2(p) : sum), 0);
+
+export interface ClueForecast {
+    outcomes: Array<{ value: string; probability: number; posteriors: number[] }>;
+    expectedSuspectsRemaining: number;
+    expectedEntropy: number;
+    informationGain: number; // entropy now minus expected entropy afterwards
+}
+
+// What investigating a clue is expected to tell us, before we see it: each
+// thing it could say, how likely that is given what we believe now, and how
+// many suspects and how much uncertainty would be left.
+export const forecastClue = (gameCase: GameCase, current: readonly number[], template: ClueTemplate): ClueForecast => {
+    const outcomes = Object.keys(template.texts).map(value => {
+        const clue: Clue = { id: template.id, text: template.texts[value], attribute: template.attribute, expectedValue: value, reliability: template.reliability };
+        const step = bayesStep(gameCase, current, clue);
+        return { value, probability: step.evidence, posteriors: step.rows.map(row => row.posterior) };
+    }).filter(outcome => outcome.probability > 0);
+
+    const expectedSuspectsRemaining = outcomes.reduce((sum, o) => sum + o.probability * o.posteriors.filter(p => p > 0).length, 0);
+    const expectedEntropy = outcomes.reduce((sum, o) => sum + o.probability * entropy(o.posteriors), 0);
+    return { outcomes, expectedSuspectsRemaining, expectedEntropy, informationGain: entropy(current) - expectedEntropy };
+};
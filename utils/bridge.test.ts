@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { SURVIVAL_BRIDGE_CONFIG, TOTAL_ADVENTURERS } from '../constants';
+import { crossingEV, getAdventurerSurvivalChance, getOptimalSequence, getSurvivorPayout, independentCrossingEV, solveExpedition } from './bridge';
+
+const bridge = { totalAdventurers: TOTAL_ADVENTURERS, crossings: SURVIVAL_BRIDGE_CONFIG };
+const tenAcross = SURVIVAL_BRIDGE_CONFIG.find(c => c.count === 10)!;
+
+describe('crossing one at a time', () => {
+    it('keeps the chance that everyone makes it', () => {
+        expect(getAdventurerSurvivalChance(tenAcross) ** 10).toBeCloseTo(0.1);
+        expect(getAdventurerSurvivalChance(SURVIVAL_BRIDGE_CONFIG[0])).toBeCloseTo(0.99);
+    });
+
+    it('shares out the reward and penalty per adventurer', () => {
+        // (4 × 500 + 6 × −250) ÷ 10
+        expect(getSurvivorPayout(10, 4, 500, -250)).toBe(50);
+        expect(getSurvivorPayout(10, 10, 500, -250)).toBe(500);
+        expect(getSurvivorPayout(10, 0, 500, -250)).toBe(-250);
+    });
+
+    it('is never worth less than crossing together', () => {
+        SURVIVAL_BRIDGE_CONFIG.forEach(c => expect(independentCrossingEV(c)).toBeGreaterThanOrEqual(crossingEV(c) - 1e-9));
+    });
+});
+
+describe('solveExpedition', () => {
+    it('finds the best plan by working backwards', () => {
+        const plan = solveExpedition(bridge, 4);
+        // 2 × EV(2) + 2 × EV(3) = 2 × 37.5 + 2 × 52
+        expect(plan.value[TOTAL_ADVENTURERS][4]).toBeCloseTo(179);
+        expect([...getOptimalSequence(plan, TOTAL_ADVENTURERS, 4)].sort()).toEqual([2, 2, 3, 3]);
+    });
+
+    it('plans with the EV it is given', () => {
+        const plan = solveExpedition(bridge, 1, independentCrossingEV);
+        const best = Math.max(...SURVIVAL_BRIDGE_CONFIG.map(independentCrossingEV));
+        expect(plan.value[TOTAL_ADVENTURERS][1]).toBeCloseTo(best);
+    });
+});
@@ -0,0 +1,125 @@
+// Best plan for a Survival Bridge expedition. A crossing uses up the group it
+// sends whether it succeeds or not, so the only things that matter for the
+// rest of the expedition are how many adventurers are still waiting and how
+// many crossings are left. Working backwards from the last crossing:
+//
+//   best(n, r) = max over k of  EV(send k) + best(n - k, r - 1)
+//
+// with best(n, 0) = 0: anyone still waiting when the crossings run out scores
+// nothing.
+
+import { BridgeCrossingConfig, BridgeSettings, SurvivalBridgeConfig } from '../types';
+import { BRIDGE_PRESETS } from '../constants';
+import { expectedValue, successFailureOutcomes } from './probability';
+
+export interface ExpeditionPlan {
+    // Indexed [adventurers waiting][crossings left]
+    value: number[][];
+    bestCount: number[][]; // 0 when nobody is waiting or no crossings are left
+}
+
+export interface ExpeditionMove {
+    waiting: number;
+    crossingsLeft: number;
+    count: number;
+    success: boolean;
+    survivors: number;
+    points: number;
+}
+
+export const crossingEV = (c: BridgeCrossingConfig) => expectedValue(successFailureOutcomes(c.probability, c.reward, c.penalty));
+
+// When adventurers cross one at a time, each one survives with the chance
+// that makes all `count` of them survive with the table's chance: p^(1/count).
+export const getAdventurerSurvivalChance = (c: BridgeCrossingConfig) => c.probability ** (1 / c.count);
+
+// Each survivor earns 1/count of the group reward and each one lost costs
+// 1/count of the group penalty, rounded to whole points.
+export const getSurvivorPayout = (count: number, survivors: number, reward: number, penalty: number) =>
+    Math.round((survivors * reward + (count - survivors) * penalty) / count);
+
+// By linearity of expectation this is q·reward + (1 − q)·penalty for each
+// adventurer's chance q, before the payouts are rounded. Since q ≥ p it is
+// never less than the all-or-nothing EV.
+export const independentCrossingEV = (c: BridgeCrossingConfig) =>
+    expectedValue(successFailureOutcomes(getAdventurerSurvivalChance(c), c.reward, c.penalty));
+
+const crossingFor = (bridge: SurvivalBridgeConfig, count: number) => bridge.crossings.find(c => c.count === count);
+
+export const solveExpedition = (bridge: SurvivalBridgeConfig, crossings: number, ev = crossingEV): ExpeditionPlan => {
+    const n = bridge.totalAdventurers;
+    const value = Array.from({ length: n + 1 }, () => Array(crossings + 1).fill(0));
+    const bestCount = Array.from({ length: n + 1 }, () => Array(crossings + 1).fill(0));
+
+    for (let r = 1; r <= crossings; r++) {
+        for (let waiting = 1; waiting <= n; waiting++) {
+            let best = -Infinity;
+            for (let k = 1; k <= waiting; k++) {
+                const crossing = crossingFor(bridge, k);
+                if (!crossing) continue;
+                const total = ev(crossing) + value[waiting - k][r - 1];
+                if (total > best) {
+                    best = total;
+                    bestCount[waiting][r] = k;
+                }
+            }
+            value[waiting][r] = best === -Infinity ? 0 : best;
+        }
+    }
+    return { value, bestCount };
+};
+
+// Expected score of sending `count` now and then playing perfectly
+export const getMoveValue = (plan: ExpeditionPlan, bridge: SurvivalBridgeConfig, waiting: number, crossingsLeft: number, count: number, ev = crossingEV): number => {
+    const crossing = crossingFor(bridge, count);
+    if (!crossing || crossingsLeft < 1) return 0;
+    return ev(crossing) + plan.value[waiting - count][crossingsLeft - 1];
+};
+
+// The sequence of group sizes the best plan sends from the start
+export const getOptimalSequence = (plan: ExpeditionPlan, waiting: number, crossingsLeft: number): number[] => {
+    const sequence: number[] = [];
+    while (waiting > 0 && crossingsLeft > 0) {
+        const k = plan.bestCount[waiting][crossingsLeft];
+        sequence.push(k);
+        waiting -= k;
+        crossingsLeft--;
+    }
+    return sequence;
+};
+
+// The table the game should use; an unknown preset falls back to the pack's.
+export const getBridgeTable = (settings: BridgeSettings, packBridge: SurvivalBridgeConfig): SurvivalBridgeConfig => {
+    if (settings.tableId === 'custom' && settings.custom) return settings.custom;
+    return BRIDGE_PRESETS.find(p => p.id === settings.tableId)?.bridge ?? packBridge;
+};
+
+// A table is no fun to play if one choice is clearly best, so the best
+// average has to beat the runner-up by this share before we warn about it.
+const CLEAR_WINNER_MARGIN = 0.2;
+
+const dominates = (a: BridgeCrossingConfig, b: BridgeCrossingConfig) =>
+    a.probability >= b.probability && a.reward >= b.reward && a.penalty >= b.penalty &&
+    (a.probability > b.probability || a.reward > b.reward || a.penalty > b.penalty);
+
+export const getBridgeWarnings = (bridge: SurvivalBridgeConfig): string[] => {
+    const warnings: string[] = [];
+    const { crossings } = bridge;
+
+    crossings.forEach(b => {
+        const better = crossings.find(a => a !== b && dominates(a, b));
+        if (better) {
+            warnings.push(`Sending ${b.count} is never worth it: sending ${better.count} is at least as safe and pays at least as well.`);
+        }
+    });
+
+    const ranked = [...crossings].sort((x, y) => crossingEV(y) - crossingEV(x));
+    if (ranked.length > 1) {
+        const best = crossingEV(ranked[0]);
+        const runnerUp = crossingEV(ranked[1]);
+        if (best - runnerUp > CLEAR_WINNER_MARGIN * Math.abs(best)) {
+            warnings.push(`Sending ${ranked[0].count} beats every other choice by at least ${(best - runnerUp).toFixed(1)} PP on average, so every student will find the same answer.`);
+        }
+    }
+    return warnings;
+};
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { validateGameCase } from './contentValidation';
+import { CASE_GENERATOR_PRESETS, CaseGeneratorError, generateCase } from './caseGenerator';
+import { getSuspectsMatchingClues } from './cases';
+
+describe('generateCase', () => {
+    it('only produces valid cases with exactly one answer', () => {
+        Object.values(CASE_GENERATOR_PRESETS).forEach(options => {
+            for (let seed = 0; seed < 50; seed++) {
+                const gameCase = generateCase(String(seed), options);
+                expect(validateGameCase(gameCase)).toEqual([]);
+                expect(getSuspectsMatchingClues(gameCase, gameCase.guiltySuspectId)).toHaveLength(1);
+            }
+        });
+    });
+
+    it('gives the same case for the same seed', () => {
+        expect(generateCase('class-7b', CASE_GENERATOR_PRESETS.medium)).toEqual(generateCase('class-7b', CASE_GENERATOR_PRESETS.medium));
+    });
+
+    it('rejects options outside the limits', () => {
+        expect(() => generateCase('x', { ...CASE_GENERATOR_PRESETS.easy, suspectCount: 1 })).toThrow(CaseGeneratorError);
+    });
+});
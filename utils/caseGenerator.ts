@@ -0,0 +1,169 @@
+// Builds a fresh Find the Thief case from a seed, so a teacher can hand out a
+// new mystery every lesson and every device with the same seed gets the same
+// one. Suspects are given distinct combinations of the clue attributes, which
+// means the full set of clues always points to exactly one person.
+
+import { CaseDifficulty, ClueTemplate, GameCase, Suspect } from '../types';
+import { createRng } from './random';
+import { getSuspectsMatchingClues } from './cases';
+import { validateGameCase } from './contentValidation';
+
+export interface CaseGeneratorOptions {
+    suspectCount: number;
+    attributeCount: number; // clues that narrow the field
+    redHerringCount: number; // clues that are true of everyone, so rule nobody out
+}
+
+export const CASE_GENERATOR_PRESETS: Record<CaseDifficulty, CaseGeneratorOptions> = {
+    easy: { suspectCount: 4, attributeCount: 2, redHerringCount: 0 },
+    medium: { suspectCount: 6, attributeCount: 3, redHerringCount: 1 },
+    hard: { suspectCount: 9, attributeCount: 4, redHerringCount: 2 },
+};
+
+export const CASE_GENERATOR_LIMITS: Record<keyof CaseGeneratorOptions, { min: number; max: number }> = {
+    suspectCount: { min: 3, max: 10 },
+    attributeCount: { min: 2, max: 5 },
+    redHerringCount: { min: 0, max: 3 },
+};
+
+export class CaseGeneratorError extends Error {}
+
+interface AttributeSpec {
+    attribute: string;
+    values: Array<{ value: boolean | string; text: string }>;
+}
+
+const ATTRIBUTES: AttributeSpec[] = [
+    { attribute: 'hatColour', values: [
+        { value: 'red', text: 'A witness saw someone in a red hat hurrying away.' },
+        { value: 'blue', text: 'A witness saw someone in a blue hat hurrying away.' },
+        { value: 'green', text: 'A witness saw someone in a green hat hurrying away.' },
+    ]},
+    { attribute: 'shoeSize', values: [
+        { value: 'small', text: 'The footprints by the door are small.' },
+        { value: 'medium', text: 'The footprints by the door are medium-sized.' },
+        { value: 'large', text: 'The footprints by the door are large.' },
+    ]},
+    { attribute: 'hand', values: [
+        { value: 'left', text: 'The scribbled note was written left-handed.' },
+        { value: 'right', text: 'The scribbled note was written right-handed.' },
+    ]},
+    { attribute: 'wearsGlasses', values: [
+        { value: true, text: 'A glasses case was left behind at the scene.' },
+        { value: false, text: 'The thief read the tiny label without needing glasses.' },
+    ]},
+    { attribute: 'hasUmbrella', values: [
+        { value: true, text: 'Drips from a wet umbrella lead away from the scene.' },
+        { value: false, text: 'The thief left soaking wet. They had no umbrella.' },
+    ]},
+    { attribute: 'pet', values: [
+        { value: 'cat', text: 'Cat hair was found on the windowsill.' },
+        { value: 'dog', text: 'Dog hair was found on the windowsill.' },
+        { value: 'none', text: 'Not a single pet hair was found anywhere.' },
+    ]},
+    { attribute: 'arrivedBy', values: [
+        { value: 'bus', text: 'The thief had a bus ticket from this morning.' },
+        { value: 'bike', text: 'A bike was seen speeding away.' },
+        { value: 'foot', text: 'Muddy footprints show the thief walked here.' },
+    ]},
+    { attribute: 'hasInkStains', values: [
+        { value: true, text: 'There are inky fingerprints on the lid.' },
+        { value: false, text: 'The lid was wiped clean of ink.' },
+    ]},
+];
+
+const NAMES = ['Aisha', 'Ben', 'Carlos', 'Dina', 'Emeka', 'Fatima', 'George', 'Hana', 'Imran', 'Julia', 'Kenji', 'Leila', 'Musa', 'Nora', 'Oscar', 'Priya'];
+const AVATARS = ['👧', '👦', '👩', '🧑', '👨', '🧒', '👩‍🦱', '👨‍🦰', '👩‍🦳', '🧔', '👱‍♀️', '👱'];
+const STOLEN_ITEMS = ['Trophy', 'Painting', 'Cupcakes', 'Treasure Map', 'Golden Pen', 'Robot'];
+const PLACES = ['the library', 'the gym', 'the art room', 'the science lab', 'the staff room'];
+
+// Every combination of the given attributes' values
+const allSignatures = (specs: AttributeSpec[]): Array<Array<boolean | string>> =>
+    specs.reduce<Array<Array<boolean | string>>>(
+        (combos, spec) => combos.flatMap(combo => spec.values.map(v => [...combo, v.value])),
+        [[]],
+    );
+
+const countSignatures = (specs: AttributeSpec[]) => specs.reduce((total, spec) => total * spec.values.length, 1);
+
+const toClue = (spec: AttributeSpec, id: number): ClueTemplate => ({
+    id,
+    attribute: spec.attribute,
+    texts: Object.fromEntries(spec.values.map(v => [String(v.value), v.text])),
+});
+
+export const getGeneratedCaseId = (seed: string, options: CaseGeneratorOptions) =>
+    `generated-${seed}-${options.suspectCount}-${options.attributeCount}-${options.redHerringCount}`;
+
+export const generateCase = (seed: string, options: CaseGeneratorOptions): GameCase => {
+    const { suspectCount, attributeCount, redHerringCount } = options;
+    (Object.keys(CASE_GENERATOR_LIMITS) as Array<keyof CaseGeneratorOptions>).forEach(key => {
+        const { min, max } = CASE_GENERATOR_LIMITS[key];
+        if (!Number.isInteger(options[key]) || options[key] < min || options[key] > max) {
+            throw new CaseGeneratorError(`${key} must be a whole number from ${min} to ${max}.`);
+        }
+    });
+
+    const rng = createRng(`case:${seed}`);
+
+    // Try a few draws of attributes until they have enough combinations to
+    // give every suspect their own.
+    let clueSpecs: AttributeSpec[] | null = null;
+    let herringSpecs: AttributeSpec[] = [];
+    for (let attempt = 0; attempt < 20 && !clueSpecs; attempt++) {
+        const pool = rng.shuffle(ATTRIBUTES);
+        const candidates = pool.slice(0, attributeCount);
+        if (countSignatures(candidates) >= suspectCount) {
+            clueSpecs = candidates;
+            herringSpecs = pool.slice(attributeCount, attributeCount + redHerringCount);
+        }
+    }
+    if (!clueSpecs) {
+        throw new CaseGeneratorError(`${attributeCount} clues can't tell ${suspectCount} suspects apart. Add more clues or fewer suspects.`);
+    }
+
+    const signatures = rng.shuffle(allSignatures(clueSpecs)).slice(0, suspectCount);
+    const herringValues = herringSpecs.map(spec => spec.values[rng.int(0, spec.values.length - 1)].value);
+    const names = rng.shuffle(NAMES);
+    const suspects: Suspect[] = signatures.map((signature, i) => ({
+        id: names[i].toLowerCase(),
+        name: names[i],
+        avatar: AVATARS[rng.int(0, AVATARS.length - 1)],
+        attributes: Object.fromEntries([
+            ...clueSpecs!.map((spec, j) => [spec.attribute, signature[j]]),
+            ...herringSpecs.map((spec, j) => [spec.attribute, herringValues[j]]),
+        ]),
+    }));
+
+    const clues = rng.shuffle([...clueSpecs, ...herringSpecs]).map((spec, i) => toClue(spec, i + 1));
+    const item = STOLEN_ITEMS[rng.int(0, STOLEN_ITEMS.length - 1)];
+    const place = PLACES[rng.int(0, PLACES.length - 1)];
+    const preset = (Object.keys(CASE_GENERATOR_PRESETS) as CaseDifficulty[]).find(d => {
+        const p = CASE_GENERATOR_PRESETS[d];
+        return p.suspectCount === suspectCount && p.attributeCount === attributeCount && p.redHerringCount === redHerringCount;
+    });
+
+    const gameCase: GameCase = {
+        id: getGeneratedCaseId(seed, options),
+        title: `The Case of the Missing ${item}`,
+        story: `The ${item.toLowerCase()} has vanished from ${place}! ${suspectCount} people were nearby. Some clues will help and some won't, so think about which ones really narrow it down. (Case seed: "${seed}")`,
+        suspects,
+        clues,
+        guiltySuspectId: suspects[rng.int(0, suspects.length - 1)].id,
+        difficulty: preset,
+    };
+
+    // Generated cases go through the same checks as a teacher's pack.
+    const problems = validateGameCase(gameCase);
+    if (problems.length > 0) {
+        throw new CaseGeneratorError(`The generated case has problems: ${problems.join(' ')}`);
+    }
+
+    // Distinct signatures should make this impossible, but a case with two
+    // possible answers must never reach a classroom.
+    const matching = getSuspectsMatchingClues(gameCase, gameCase.guiltySuspectId);
+    if (matching.length !== 1) {
+        throw new CaseGeneratorError(`The clues fit ${matching.length} suspects instead of exactly one.`);
+    }
+    return gameCase;
+};
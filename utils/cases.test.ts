@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { CORRECT_ACCUSATION_REWARD, UNUSED_CLUE_BONUS, getAccusationReward } from './cases';
+
+describe('getAccusationReward', () => {
+    it('pays the base reward for a sure accusation with every clue used', () => {
+        expect(getAccusationReward(1, 0)).toBe(CORRECT_ACCUSATION_REWARD);
+    });
+
+    it('pays more for a riskier accusation', () => {
+        // 250 × (2 − 0.25) = 437.5, rounded
+        expect(getAccusationReward(0.25, 0)).toBe(438);
+        expect(getAccusationReward(0, 0)).toBe(2 * CORRECT_ACCUSATION_REWARD);
+    });
+
+    it('adds a bonus for each clue left uninvestigated', () => {
+        // 250 × 1.5 + 2 × 25
+        expect(getAccusationReward(0.5, 2)).toBe(425);
+        expect(getAccusationReward(0.5, 3) - getAccusationReward(0.5, 2)).toBe(UNUSED_CLUE_BONUS);
+    });
+});
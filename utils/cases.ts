@@ -0,0 +1,89 @@
+// Helpers for Find the Thief: difficulty, completion status from the ledger,
+// accusation rewards, and turning a case template into a playable round with a
+// chosen culprit.
+
+import { CaseDifficulty, Clue, GameCase, GameEvent, Suspect } from '../types';
+import { bernoulli, randomInt, weightedPick } from './random';
+import { getClueReliability, getPriors } from './bayes';
+
+export type CaseStatus = 'new' | 'attempted' | 'solved';
+
+// Packs may leave difficulty out; more suspects means more to rule out.
+export const getCaseDifficulty = (gameCase: GameCase): CaseDifficulty => {
+    if (gameCase.difficulty) return gameCase.difficulty;
+    if (gameCase.suspects.length <= 5) return 'easy';
+    if (gameCase.suspects.length <= 7) return 'medium';
+    return 'hard';
+};
+
+export const getCaseStatus = (history: readonly GameEvent[], caseId: string): CaseStatus => {
+    const accusations = history.filter(e => e.type === 'suspect-accused' && e.caseId === caseId);
+    if (accusations.some(e => e.type === 'suspect-accused' && e.correct)) return 'solved';
+    return accusations.length > 0 ? 'attempted' : 'new';
+};
+
+export const CORRECT_ACCUSATION_REWARD = 250;
+export const WRONG_ACCUSATION_PENALTY = -50;
+export const UNUSED_CLUE_BONUS = 25;
+
+// Accusing someone you're only p sure of is riskier, so it pays up to twice the
+// base reward, plus a bonus for every clue left uninvestigated.
+export const getAccusationReward = (probability: number, unusedClues: number) =>
+    Math.round(CORRECT_ACCUSATION_REWARD * (2 - probability)) + UNUSED_CLUE_BONUS * unusedClues;
+
+const clueSignature = (gameCase: GameCase, suspect: Suspect) =>
+    gameCase.clues.map(clue => String(suspect.attributes[clue.attribute])).join('|');
+
+// Everyone the full set of clues would still point to if `culpritId` did it.
+// A solvable case has exactly one.
+export const getSuspectsMatchingClues = (gameCase: GameCase, culpritId: string): Suspect[] => {
+    const culprit = gameCase.suspects.find(s => s.id === culpritId);
+    if (!culprit) return [];
+    const target = clueSignature(gameCase, culprit);
+    return gameCase.suspects.filter(s => clueSignature(gameCase, s) === target);
+};
+
+// Any suspect can be the culprit only if the full set of clues always points
+// to exactly one person, i.e. no two suspects match every clue the same way.
+export const canRandomizeCulprit = (gameCase: GameCase): boolean => {
+    const signatures = gameCase.suspects.map(s => clueSignature(gameCase, s));
+    return new Set(signatures).size === signatures.length;
+};
+
+// Drawn by the suspects' priors, so the odds the Bayes walkthrough starts
+// from are the odds the culprit was really chosen with.
+export const pickRandomCulprit = (gameCase: GameCase): string => {
+    const priors = getPriors(gameCase.suspects);
+    return weightedPick(gameCase.suspects.map((suspect, i) => ({ id: suspect.id, probability: priors[i] }))).id;
+};
+
+// Clue texts are keyed by strings; map a key back to the typed value the
+// suspects use, so `true` stays a boolean.
+const toAttributeValue = (gameCase: GameCase, attribute: string, key: string): boolean | string => {
+    const match = gameCase.suspects.find(s => String(s.attributes[attribute]) === key);
+    return match ? match.attributes[attribute] : key;
+};
+
+// Clue texts come from the culprit's own attributes, so every clue fits
+// whoever the culprit is. An unreliable clue may instead state one of the
+// other values, picked at random.
+export const prepareCase = (template: GameCase, guiltySuspectId: string = template.guiltySuspectId): { gameCase: GameCase; clues: Clue[] } | null => {
+    const gameCase: GameCase = { ...JSON.parse(JSON.stringify(template)), guiltySuspectId };
+    const guiltySuspect = gameCase.suspects.find(s => s.id === guiltySuspectId);
+    if (!guiltySuspect) return null;
+
+    const clues = gameCase.clues.map((template): Clue => {
+        const reliability = getClueReliability(template);
+        const trueKey = String(guiltySuspect.attributes[template.attribute]);
+        const otherKeys = Object.keys(template.texts).filter(key => key !== trueKey);
+        const shownKey = otherKeys.length > 0 && !bernoulli(reliability) ? otherKeys[randomInt(0, otherKeys.length - 1)] : trueKey;
+        return {
+            id: template.id,
+            text: template.texts[shownKey],
+            attribute: template.attribute,
+            expectedValue: toAttributeValue(gameCase, template.attribute, shownKey),
+            reliability,
+        };
+    });
+    return { gameCase, clues };
+};
@@ -0,0 +1,169 @@
+// Reading and writing game content as JSON "content packs", so teachers can
+// publish new boxes, cases, bridge tables and goal grids without touching
+// TypeScript. parseContentPack checks that a file has the right shape and
+// then runs validateContentPack, so anything it accepts can be handed
+// straight to the games.
+
+import { ContentLibrary, ContentPack, GameCase, GoalTarget, LuckyBox, SurvivalBridgeConfig } from '../types';
+import { CONTENT_PACK_FORMAT_VERSION, DEFAULT_CONTENT_PACK } from '../constants';
+import { validateContentPack } from './contentValidation';
+
+export class ContentPackError extends Error {
+    constructor(message: string, public readonly problems: string[] = []) {
+        super(message);
+        this.name = 'ContentPackError';
+    }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const requireRecord = (value: unknown, path: string): Record<string, unknown> => {
+    if (!isRecord(value)) throw new ContentPackError(`${path} must be an object.`);
+    return value;
+};
+
+const requireArray = (value: unknown, path: string): unknown[] => {
+    if (!Array.isArray(value)) throw new ContentPackError(`${path} must be a list.`);
+    return value;
+};
+
+const requireString = (record: Record<string, unknown>, key: string, path: string): string => {
+    const value = record[key];
+    if (typeof value !== 'string') throw new ContentPackError(`${path}.${key} must be text.`);
+    return value;
+};
+
+const requireNumber = (record: Record<string, unknown>, key: string, path: string): number => {
+    const value = record[key];
+    if (typeof value !== 'number' || !Number.isFinite(value)) throw new ContentPackError(`${path}.${key} must be a number.`);
+    return value;
+};
+
+const requireBoxId = (record: Record<string, unknown>, path: string) => {
+    const { id } = record;
+    if (typeof id !== 'string' && (typeof id !== 'number' || !Number.isFinite(id))) {
+        throw new ContentPackError(`${path}.id must be a number or text.`);
+    }
+};
+
+// Each check* throws unless `raw` has the shape of the type it asserts; the
+// values themselves are judged afterwards by validateContentPack.
+export const checkLuckyBoxes: (raw: unknown) => asserts raw is LuckyBox[] = raw =>
+    requireArray(raw, 'luckyBoxes').forEach((value, i) => {
+        const path = `luckyBoxes[${i}]`;
+        const box = requireRecord(value, path);
+        requireBoxId(box, path);
+        requireString(box, 'name', path);
+        requireNumber(box, 'price', path);
+        requireString(box, 'color', path);
+        requireArray(box.items, `${path}.items`).forEach((itemValue, j) => {
+            const itemPath = `${path}.items[${j}]`;
+            const item = requireRecord(itemValue, itemPath);
+            requireString(item, 'name', itemPath);
+            requireNumber(item, 'value', itemPath);
+            requireNumber(item, 'probability', itemPath);
+            requireString(item, 'rarity', itemPath);
+        });
+    });
+
+const checkGameCases: (raw: unknown) => asserts raw is GameCase[] = raw =>
+    requireArray(raw, 'gameCases').forEach((value, i) => {
+        const path = `gameCases[${i}]`;
+        const gameCase = requireRecord(value, path);
+        ['id', 'title', 'story', 'guiltySuspectId'].forEach(key => requireString(gameCase, key, path));
+        if (gameCase.difficulty !== undefined) requireString(gameCase, 'difficulty', path);
+        requireArray(gameCase.suspects, `${path}.suspects`).forEach((suspectValue, j) => {
+            const suspectPath = `${path}.suspects[${j}]`;
+            const suspect = requireRecord(suspectValue, suspectPath);
+            ['id', 'name', 'avatar'].forEach(key => requireString(suspect, key, suspectPath));
+            requireRecord(suspect.attributes, `${suspectPath}.attributes`);
+            if (suspect.prior !== undefined) requireNumber(suspect, 'prior', suspectPath);
+        });
+        requireArray(gameCase.clues, `${path}.clues`).forEach((clueValue, j) => {
+            const cluePath = `${path}.clues[${j}]`;
+            const clue = requireRecord(clueValue, cluePath);
+            requireNumber(clue, 'id', cluePath);
+            requireString(clue, 'attribute', cluePath);
+            requireRecord(clue.texts, `${cluePath}.texts`);
+            if (clue.reliability !== undefined) requireNumber(clue, 'reliability', cluePath);
+        });
+    });
+
+export const checkSurvivalBridge: (raw: unknown) => asserts raw is SurvivalBridgeConfig = raw => {
+    const bridge = requireRecord(raw, 'survivalBridge');
+    requireNumber(bridge, 'totalAdventurers', 'survivalBridge');
+    requireArray(bridge.crossings, 'survivalBridge.crossings').forEach((value, i) => {
+        const path = `survivalBridge.crossings[${i}]`;
+        const crossing = requireRecord(value, path);
+        ['count', 'probability', 'reward', 'penalty'].forEach(key => requireNumber(crossing, key, path));
+    });
+};
+
+const checkGoalTargets: (raw: unknown) => asserts raw is GoalTarget[] = raw =>
+    requireArray(raw, 'goalTargets').forEach((value, i) => {
+        const path = `goalTargets[${i}]`;
+        const target = requireRecord(value, path);
+        ['id', 'name', 'gridArea'].forEach(key => requireString(target, key, path));
+        ['probability', 'reward', 'penalty'].forEach(key => requireNumber(target, key, path));
+    });
+
+export const parseContentPack = (json: string): ContentPack => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(json);
+    } catch {
+        throw new ContentPackError('This file is not valid JSON.');
+    }
+
+    const pack = requireRecord(parsed, 'The content pack');
+    const id = requireString(pack, 'id', 'pack');
+    const name = requireString(pack, 'name', 'pack');
+    const formatVersion = requireNumber(pack, 'formatVersion', 'pack');
+    if (formatVersion > CONTENT_PACK_FORMAT_VERSION) {
+        throw new ContentPackError(`This pack needs a newer version of the app (format ${formatVersion}).`);
+    }
+    const { luckyBoxes, gameCases, survivalBridge, goalTargets } = pack;
+    checkLuckyBoxes(luckyBoxes);
+    checkGameCases(gameCases);
+    checkSurvivalBridge(survivalBridge);
+    checkGoalTargets(goalTargets);
+
+    const description = typeof pack.description === 'string' ? pack.description : '';
+    const result: ContentPack = { id, name, description, formatVersion, luckyBoxes, gameCases, survivalBridge, goalTargets };
+    const problems = validateContentPack(result);
+    if (problems.length > 0) {
+        throw new ContentPackError(`"${result.name}" has ${problems.length} problem${problems.length === 1 ? '' : 's'} to fix:`, problems);
+    }
+    return result;
+};
+
+export const serializeContentPack = (pack: ContentPack): string => JSON.stringify(pack, null, 2);
+
+export const downloadContentPack = (pack: ContentPack) => {
+    const blob = new Blob([serializeContentPack(pack)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${pack.id}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+export const getAvailablePacks = (library: ContentLibrary): ContentPack[] => [DEFAULT_CONTENT_PACK, ...library.packs];
+
+export const getActivePack = (library: ContentLibrary): ContentPack =>
+    library.packs.find(p => p.id === library.activePackId) ?? DEFAULT_CONTENT_PACK;
+
+// Adds a pack, replacing any earlier import with the same id.
+export const addContentPack = (library: ContentLibrary, pack: ContentPack): ContentLibrary => {
+    if (pack.id === DEFAULT_CONTENT_PACK.id) {
+        throw new ContentPackError(`"${pack.id}" is reserved for the built-in pack. Please give your pack a different id.`);
+    }
+    return { ...library, packs: [...library.packs.filter(p => p.id !== pack.id), pack] };
+};
+
+export const removeContentPack = (library: ContentLibrary, packId: string): ContentLibrary => ({
+    activePackId: library.activePackId === packId ? DEFAULT_CONTENT_PACK.id : library.activePackId,
+    packs: library.packs.filter(p => p.id !== packId),
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CONTENT_PACK } from '../constants';
+import { ContentPack } from '../types';
+import { validateContentPack, validateGameCase, validateLuckyBox } from './contentValidation';
+
+const copyPack = (): ContentPack => structuredClone(DEFAULT_CONTENT_PACK);
+
+describe('the built-in content pack', () => {
+    it('has no problems', () => {
+        expect(validateContentPack(DEFAULT_CONTENT_PACK)).toEqual([]);
+    });
+});
+
+describe('readable errors', () => {
+    it('reports item chances that do not add up to 1', () => {
+        const box = copyPack().luckyBoxes[0];
+        box.items[0].probability += 0.1;
+        const problems = validateLuckyBox(box);
+        expect(problems).toHaveLength(1);
+        expect(problems[0]).toMatch(/item chances add up to [\d.]+ instead of 1\./);
+    });
+
+    it('reports an item with a negative value', () => {
+        const box = copyPack().luckyBoxes[0];
+        box.items[0].value = -5;
+        expect(validateLuckyBox(box)).toEqual([
+            `Box "${box.name}": "${box.items[0].name}" is worth -5 PP. Item values must be 0 or more.`,
+        ]);
+    });
+
+    it('reports a case whose guilty suspect is not a suspect', () => {
+        const gameCase = copyPack().gameCases[0];
+        gameCase.guiltySuspectId = 'nobody';
+        expect(validateGameCase(gameCase)).toEqual([
+            `Case "${gameCase.title}": the guilty suspect "nobody" is not one of the suspects.`,
+        ]);
+    });
+
+    it('reports a clue with no text for a suspect\'s value', () => {
+        const gameCase = copyPack().gameCases[0];
+        const clue = gameCase.clues.find(c => c.attribute === 'hasCrumbs')!;
+        delete clue.texts['true'];
+        const problems = validateGameCase(gameCase);
+        expect(problems.length).toBeGreaterThan(0);
+        expect(problems.every(p => p.includes(`clue ${clue.id} has no text for "hasCrumbs" = true`))).toBe(true);
+    });
+});
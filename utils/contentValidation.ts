@@ -0,0 +1,135 @@
+// Checks that game content makes sense, not just that it has the right shape.
+// Every problem found is returned as a sentence a teacher can act on, so a
+// pack with several mistakes can be fixed in one go.
+
+import { ContentPack, GameCase, GoalTarget, LuckyBox, SurvivalBridgeConfig } from '../types';
+import { CASE_DIFFICULTIES, LUCKY_BOX_RARITIES } from '../constants';
+
+// Probabilities written as decimals rarely add up to exactly 1.
+const PROBABILITY_TOLERANCE = 1e-6;
+
+// The goal in GoalOrMiss is drawn as a fixed 3 × 2 grid.
+const GOAL_GRID_AREAS = ['top-left', 'top-center', 'top-right', 'bottom-left', 'bottom-center', 'bottom-right'];
+
+const isProbability = (p: number) => p >= 0 && p <= 1;
+
+const findDuplicates = <T>(values: T[]): T[] =>
+    values.filter((value, i) => values.indexOf(value) !== i);
+
+const checkPayouts = (label: string, item: { probability: number; reward: number; penalty: number }): string[] => {
+    const problems: string[] = [];
+    if (!isProbability(item.probability)) problems.push(`${label} has a success chance of ${item.probability}; it must be between 0 and 1.`);
+    if (item.reward < 0) problems.push(`${label} has a negative reward (${item.reward}). Rewards must be 0 or more.`);
+    if (item.penalty > 0) problems.push(`${label} has a positive penalty (${item.penalty}). Penalties must be 0 or less.`);
+    return problems;
+};
+
+export const validateLuckyBox = (box: LuckyBox): string[] => {
+    const label = `Box "${box.name}"`;
+    const problems: string[] = [];
+
+    if (box.price <= 0) problems.push(`${label} must cost more than 0 PP.`);
+    if (box.items.length === 0) return [...problems, `${label} has no items.`];
+
+    box.items.forEach(item => {
+        if (!isProbability(item.probability)) problems.push(`${label}: "${item.name}" has a chance of ${item.probability}; it must be between 0 and 1.`);
+        if (item.name.trim() === '') problems.push(`${label} has an item with no name.`);
+        if (item.value < 0) problems.push(`${label}: "${item.name}" is worth ${item.value} PP. Item values must be 0 or more.`);
+        if (!LUCKY_BOX_RARITIES.includes(item.rarity)) problems.push(`${label}: "${item.name}" has an unknown rarity "${item.rarity}". Use one of ${LUCKY_BOX_RARITIES.join(', ')}.`);
+    });
+    findDuplicates(box.items.map(item => item.name)).forEach(name => problems.push(`${label} has more than one item called "${name}".`));
+
+    const total = box.items.reduce((sum, item) => sum + item.probability, 0);
+    if (Math.abs(total - 1) > PROBABILITY_TOLERANCE) {
+        problems.push(`${label}: item chances add up to ${+total.toFixed(4)} instead of 1.`);
+    }
+    return problems;
+};
+
+export const validateGameCase = (gameCase: GameCase): string[] => {
+    const label = `Case "${gameCase.title}"`;
+    const problems: string[] = [];
+
+    if (gameCase.difficulty !== undefined && !CASE_DIFFICULTIES.includes(gameCase.difficulty)) {
+        problems.push(`${label} has an unknown difficulty "${gameCase.difficulty}". Use one of ${CASE_DIFFICULTIES.join(', ')}.`);
+    }
+    if (gameCase.suspects.length < 2) problems.push(`${label} needs at least two suspects.`);
+    gameCase.suspects
+        .filter(s => s.prior !== undefined && !(s.prior > 0))
+        .forEach(s => problems.push(`${label}: ${s.name} has a prior of ${s.prior}. Priors must be more than 0.`));
+    findDuplicates(gameCase.suspects.map(s => s.id)).forEach(id => problems.push(`${label} has more than one suspect with id "${id}".`));
+    if (!gameCase.suspects.some(s => s.id === gameCase.guiltySuspectId)) {
+        problems.push(`${label}: the guilty suspect "${gameCase.guiltySuspectId}" is not one of the suspects.`);
+    }
+
+    if (gameCase.clues.length === 0) problems.push(`${label} has no clues.`);
+    gameCase.clues.forEach(clue => {
+        if (clue.reliability !== undefined) {
+            if (!(clue.reliability > 0 && clue.reliability <= 1)) {
+                problems.push(`${label}: clue ${clue.id} has a reliability of ${clue.reliability}; it must be more than 0 and at most 1.`);
+            } else if (clue.reliability < 1 && Object.keys(clue.texts).length < 2) {
+                problems.push(`${label}: clue ${clue.id} can be wrong, so it needs texts for at least two values.`);
+            }
+        }
+        gameCase.suspects.forEach(suspect => {
+            if (!(clue.attribute in suspect.attributes)) {
+                problems.push(`${label}: clue ${clue.id} is about "${clue.attribute}", but ${suspect.name} has no "${clue.attribute}" attribute.`);
+                return;
+            }
+            const value = String(suspect.attributes[clue.attribute]);
+            if (clue.texts[value] === undefined) {
+                problems.push(`${label}: clue ${clue.id} has no text for "${clue.attribute}" = ${value} (${suspect.name}).`);
+            }
+        });
+    });
+    return problems;
+};
+
+export const validateSurvivalBridge = (bridge: SurvivalBridgeConfig): string[] => {
+    const problems: string[] = [];
+    const { totalAdventurers, crossings } = bridge;
+
+    if (!Number.isInteger(totalAdventurers) || totalAdventurers < 1) {
+        return [`The bridge needs a whole number of adventurers (at least 1), not ${totalAdventurers}.`];
+    }
+    // The game lets players pick any group size from 1 to totalAdventurers.
+    for (let count = 1; count <= totalAdventurers; count++) {
+        const rows = crossings.filter(c => c.count === count);
+        if (rows.length === 0) problems.push(`The bridge table has no row for sending ${count} adventurer${count === 1 ? '' : 's'}.`);
+        if (rows.length > 1) problems.push(`The bridge table has ${rows.length} rows for sending ${count} adventurer${count === 1 ? '' : 's'}.`);
+    }
+    crossings
+        .filter(c => c.count < 1 || c.count > totalAdventurers)
+        .forEach(c => problems.push(`The bridge table has a row for ${c.count} adventurers, but there are only ${totalAdventurers}.`));
+    crossings.forEach(c => problems.push(...checkPayouts(`Sending ${c.count} across the bridge`, c)));
+    return problems;
+};
+
+const validateGoalTarget = (target: GoalTarget): string[] => {
+    const problems = checkPayouts(`Goal target "${target.name}"`, target);
+    if (!GOAL_GRID_AREAS.includes(target.gridArea)) {
+        problems.push(`Goal target "${target.name}" is placed at "${target.gridArea}". Use one of ${GOAL_GRID_AREAS.join(', ')}.`);
+    }
+    return problems;
+};
+
+export const validateContentPack = (pack: ContentPack): string[] => {
+    const problems: string[] = [];
+
+    if (pack.luckyBoxes.length === 0) problems.push('The pack has no lucky boxes.');
+    findDuplicates(pack.luckyBoxes.map(b => b.id)).forEach(id => problems.push(`More than one lucky box has id ${id}.`));
+    pack.luckyBoxes.forEach(box => problems.push(...validateLuckyBox(box)));
+
+    if (pack.gameCases.length === 0) problems.push('The pack has no mystery cases.');
+    findDuplicates(pack.gameCases.map(c => c.id)).forEach(id => problems.push(`More than one case has id "${id}".`));
+    pack.gameCases.forEach(gameCase => problems.push(...validateGameCase(gameCase)));
+
+    problems.push(...validateSurvivalBridge(pack.survivalBridge));
+
+    if (pack.goalTargets.length === 0) problems.push('The pack has no goal targets.');
+    findDuplicates(pack.goalTargets.map(t => t.id)).forEach(id => problems.push(`More than one goal target has id "${id}".`));
+    findDuplicates(pack.goalTargets.map(t => t.gridArea)).forEach(area => problems.push(`More than one goal target is placed at "${area}".`));
+    pack.goalTargets.forEach(target => problems.push(...validateGoalTarget(target)));
+
+    return problems;
+};
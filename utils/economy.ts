@@ -0,0 +1,17 @@
+// Rules for the points economy. A round can only be played when the player
+// can cover its worst-case loss, so the balance never goes negative. A player
+// who drops below BANKRUPTCY_THRESHOLD is bankrupt and can earn their way back
+// with the daily allowance or the probability quiz, or start over.
+
+import { PlayerProfile } from '../types';
+import { BANKRUPTCY_THRESHOLD } from '../constants';
+
+// `worstCaseLoss` may be given as a price (positive) or a penalty (negative).
+export const canCoverStake = (points: number, worstCaseLoss: number): boolean => points >= Math.abs(worstCaseLoss);
+
+export const isBankrupt = (points: number): boolean => points < BANKRUPTCY_THRESHOLD;
+
+const isSameDay = (a: number, b: number) => new Date(a).toDateString() === new Date(b).toDateString();
+
+export const hasClaimedAllowanceToday = (profile: PlayerProfile, now: number = Date.now()): boolean =>
+    profile.history.some(event => event.type === 'allowance-claimed' && isSameDay(event.timestamp, now));
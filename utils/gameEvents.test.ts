@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { Game, GameEvent, LuckyBoxItem } from '../types';
+import { applyGameEvent } from './gameEvents';
+import { createProfile } from './storage';
+
+const item: LuckyBoxItem = { name: 'Toy Car', value: 40, probability: 1, rarity: 'common' };
+
+const opened: GameEvent = {
+    type: 'lucky-box-opened',
+    boxId: 1,
+    boxName: 'Test Box',
+    price: 10,
+    item,
+    wasBestExpectedValue: false,
+    addedToInventory: true,
+    id: 'open-1',
+    game: Game.LuckyBox,
+    timestamp: 0,
+};
+
+const sold: GameEvent = {
+    type: 'lucky-box-item-sold',
+    inventoryId: 'open-1',
+    itemName: item.name,
+    value: item.value,
+    id: 'sell-1',
+    game: Game.LuckyBox,
+    timestamp: 1,
+};
+
+describe('applyGameEvent', () => {
+    it('pays for an item when it is sold', () => {
+        const start = { ...createProfile('Test', '🙂'), points: 100 };
+        const afterOpen = applyGameEvent(start, opened);
+        expect(afterOpen.points).toBe(90);
+        expect(afterOpen.inventory).toHaveLength(1);
+
+        const afterSale = applyGameEvent(afterOpen, sold);
+        expect(afterSale.points).toBe(130);
+        expect(afterSale.inventory).toHaveLength(0);
+        expect(afterSale.history.map(e => e.id)).toEqual(['open-1', 'sell-1']);
+    });
+
+    it('ignores a sale of an item that is not in the inventory', () => {
+        const start = { ...createProfile('Test', '🙂'), points: 100 };
+        const afterSale = applyGameEvent(applyGameEvent(start, opened), sold);
+        const afterDuplicate = applyGameEvent(afterSale, { ...sold, id: 'sell-2' });
+        expect(afterDuplicate).toBe(afterSale);
+        expect(applyGameEvent(start, sold)).toBe(start);
+    });
+});
@@ -0,0 +1,89 @@
+// A small event bus for game outcomes. Games describe what happened in a round
+// by emitting a GameOutcome; the app records every event in the active
+// player's ledger and derives point changes from it here (badges come from the
+// rules in ./badges), so the history is a complete audit trail of how each
+// point was earned.
+
+import { Game, GameEvent, GameOutcome, PlayerProfile } from '../types';
+import { awardBadges } from './badges';
+import { getSurvivorPayout } from './bridge';
+import { updateInventory } from './inventory';
+
+type GameEventListener = (event: GameEvent) => void;
+
+const EVENT_GAMES: Record<GameOutcome['type'], Game | null> = {
+    'lucky-box-opened': Game.LuckyBox,
+    'lucky-box-item-sold': Game.LuckyBox,
+    'goal-shot': Game.GoalOrMiss,
+    'bridge-crossing': Game.SurvivalBridge,
+    'suspect-accused': Game.FindTheThief,
+    'allowance-claimed': null,
+    'quiz-answered': null,
+    'points-reset': null,
+    // Only created by save migrations, which keep the game the round came from
+    'legacy-round': null,
+};
+
+const listeners = new Set<GameEventListener>();
+
+export const subscribeToGameEvents = (listener: GameEventListener) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+export const emitGameEvent = (outcome: GameOutcome): GameEvent => {
+    const event: GameEvent = {
+        ...outcome,
+        id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        game: EVENT_GAMES[outcome.type],
+        timestamp: Date.now(),
+    };
+    listeners.forEach(listener => listener(event));
+    return event;
+};
+
+export const getPointsChange = (outcome: GameOutcome): number => {
+    switch (outcome.type) {
+        case 'lucky-box-opened':
+            return outcome.addedToInventory ? -outcome.price : outcome.item.value - outcome.price;
+        case 'lucky-box-item-sold':
+            return outcome.value;
+        case 'goal-shot':
+            return outcome.scored ? outcome.reward : outcome.penalty;
+        case 'bridge-crossing':
+            if (outcome.survivors !== undefined) {
+                return getSurvivorPayout(outcome.count, outcome.survivors, outcome.reward, outcome.penalty);
+            }
+            return outcome.success ? outcome.reward : outcome.penalty;
+        case 'suspect-accused':
+            return outcome.correct ? outcome.reward : outcome.penalty;
+        case 'allowance-claimed':
+            return outcome.amount;
+        case 'quiz-answered':
+            return outcome.correct ? outcome.reward : 0;
+        case 'points-reset':
+            return outcome.pointsAfter - outcome.pointsBefore;
+        case 'legacy-round':
+            return outcome.pointsChange;
+    }
+};
+
+export const applyGameEvent = (profile: PlayerProfile, event: GameEvent): PlayerProfile => {
+    // Selling something that isn't in the inventory (already sold, or sold
+    // again from a stale screen) would create points from nothing, so the
+    // event is dropped before it reaches the ledger.
+    if (event.type === 'lucky-box-item-sold' && !profile.inventory.some(entry => entry.id === event.inventoryId)) {
+        return profile;
+    }
+    return awardBadges({
+        ...profile,
+        // Stake checks should keep points from going negative; this is the backstop.
+        points: Math.max(0, profile.points + getPointsChange(event)),
+        // The ledger is never trimmed: allowances, case status, badges and
+        // statistics all read the whole of it.
+        history: [...profile.history, event],
+        inventory: updateInventory(profile.inventory, event),
+    });
+};
@@ -0,0 +1,116 @@
+// Solving two-player zero-sum games given as a payoff matrix: payoff[i][j] is
+// what the row player wins (and the column player loses) when row i meets
+// column j. A Nash equilibrium is a pair of mixed strategies where neither
+// player can do better by changing theirs alone.
+
+export interface MatrixGameSolution {
+    rowStrategy: number[];
+    columnStrategy: number[];
+    value: number; // the row player's expected payoff at equilibrium
+}
+
+const EPSILON = 1e-9;
+
+// Solves a square linear system by Gaussian elimination with partial
+// pivoting; null when the system has no single solution.
+const solveLinearSystem = (matrix: number[][], rhs: number[]): number[] | null => {
+    const n = rhs.length;
+    const a = matrix.map((row, i) => [...row, rhs[i]]);
+    for (let col = 0; col < n; col++) {
+        let pivot = col;
+        for (let r = col + 1; r < n; r++) {
+            if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+        }
+        if (Math.abs(a[pivot][col]) < EPSILON) return null;
+        [a[col], a[pivot]] = [a[pivot], a[col]];
+        for (let r = 0; r < n; r++) {
+            if (r === col) continue;
+            const factor = a[r][col] / a[col][col];
+            for (let c = col; c <= n; c++) a[r][c] -= factor * a[col][c];
+        }
+    }
+    return a.map((row, i) => row[n] / row[i]);
+};
+
+const subsets = (n: number, size: number): number[][] => {
+    if (size === 0) return [[]];
+    const result: number[][] = [];
+    for (let first = 0; first <= n - size; first++) {
+        subsets(n - first - 1, size - 1).forEach(rest => result.push([first, ...rest.map(i => i + first + 1)]));
+    }
+    return result;
+};
+
+// Mixes `support` so that every row in `against` pays the same value v:
+//   Σ_j payoff[i][j] · y_j = v for each i, and Σ_j y_j = 1.
+const indifferentMix = (payoff: number[][], against: number[], support: number[]) => {
+    const k = support.length;
+    const matrix = [
+        ...against.map(i => [...support.map(j => payoff[i][j]), -1]),
+        [...support.map(() => 1), 0],
+    ];
+    const solution = solveLinearSystem(matrix, [...against.map(() => 0), 1]);
+    if (!solution || solution.slice(0, k).some(p => p < -EPSILON)) return null;
+    return { weights: solution.slice(0, k).map(p => Math.max(0, p)), value: solution[k] };
+};
+
+const transpose = (payoff: number[][]) => payoff[0].map((_, j) => payoff.map(row => row[j]));
+
+// Fictitious play: each player keeps best-responding to the other's history.
+// In zero-sum games the empirical mixes converge to an equilibrium, so this
+// is the fallback for degenerate games the support search can't pin down.
+const fictitiousPlay = (payoff: number[][], rounds = 20000): MatrixGameSolution => {
+    const m = payoff.length;
+    const n = payoff[0].length;
+    const rowCounts = Array(m).fill(0);
+    const columnCounts = Array(n).fill(0);
+    const rowTotals = Array(m).fill(0); // row i's payoff against the columns played so far
+    const columnTotals = Array(n).fill(0); // column j's payoff against the rows played so far
+    const argBest = (values: number[], better: (a: number, b: number) => boolean) =>
+        values.reduce((best, v, i) => (better(v, values[best]) ? i : best), 0);
+
+    for (let t = 0; t < rounds; t++) {
+        const i = argBest(rowTotals, (a, b) => a > b);
+        const j = argBest(columnTotals, (a, b) => a < b);
+        rowCounts[i]++;
+        columnCounts[j]++;
+        for (let r = 0; r < m; r++) rowTotals[r] += payoff[r][j];
+        for (let c = 0; c < n; c++) columnTotals[c] += payoff[i][c];
+    }
+    const rowStrategy = rowCounts.map(c => c / rounds);
+    const columnStrategy = columnCounts.map(c => c / rounds);
+    const value = rowStrategy.reduce((sum, x, i) => sum + x * columnStrategy.reduce((s, y, j) => s + y * payoff[i][j], 0), 0);
+    return { rowStrategy, columnStrategy, value };
+};
+
+// Support enumeration: guess which rows and columns are played, make each side
+// indifferent across the other's guessed choices, and keep the guess if no
+// unplayed choice would do better.
+export const solveZeroSumGame = (payoff: number[][]): MatrixGameSolution => {
+    const m = payoff.length;
+    const n = payoff[0].length;
+    const columns = transpose(payoff);
+
+    for (let size = 1; size <= Math.min(m, n); size++) {
+        for (const rows of subsets(m, size)) {
+            for (const cols of subsets(n, size)) {
+                const column = indifferentMix(payoff, rows, cols);
+                const row = indifferentMix(columns, cols, rows);
+                if (!column || !row) continue;
+
+                const columnStrategy = Array(n).fill(0);
+                cols.forEach((j, k) => { columnStrategy[j] = column.weights[k]; });
+                const rowStrategy = Array(m).fill(0);
+                rows.forEach((i, k) => { rowStrategy[i] = row.weights[k]; });
+
+                const value = column.value;
+                const rowPayoffs = payoff.map(r => r.reduce((sum, a, j) => sum + a * columnStrategy[j], 0));
+                const columnPayoffs = columns.map(c => c.reduce((sum, a, i) => sum + a * rowStrategy[i], 0));
+                if (rowPayoffs.every(p => p <= value + 1e-7) && columnPayoffs.every(p => p >= value - 1e-7)) {
+                    return { rowStrategy, columnStrategy, value };
+                }
+            }
+        }
+    }
+    return fictitiousPlay(payoff);
+};
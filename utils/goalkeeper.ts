@@ -0,0 +1,53 @@
+// The goalkeeper for Goal or Miss. The keeper dives to one side before seeing
+// the shot; a shot the keeper dives towards is usually saved, while a shot
+// to the other side only has to be on target. Together the shooter's aim and
+// the keeper's dive form a zero-sum game (see ./gameTheory).
+
+import { GoalTarget, KeeperDive } from '../types';
+import { expectedValue, successFailureOutcomes } from './probability';
+import { solveZeroSumGame, MatrixGameSolution } from './gameTheory';
+
+export const KEEPER_DIVES: KeeperDive[] = ['left', 'center', 'right'];
+
+// Chance the keeper stops a shot on the side they dived to
+export const KEEPER_REACH = 0.7;
+
+// A dive mix as chances for left, center and right, in that order
+export type KeeperMix = [number, number, number];
+
+export const UNIFORM_KEEPER_MIX: KeeperMix = [1 / 3, 1 / 3, 1 / 3];
+
+// 'top-left' -> 'left'; goal grid areas always end in the column.
+export const getTargetSide = (target: GoalTarget): KeeperDive => target.gridArea.split('-')[1] as KeeperDive;
+
+export const getGoalChance = (target: GoalTarget, dive: KeeperDive): number =>
+    target.probability * (getTargetSide(target) === dive ? 1 - KEEPER_REACH : 1);
+
+export const getShotEV = (target: GoalTarget, dive: KeeperDive): number =>
+    expectedValue(successFailureOutcomes(getGoalChance(target, dive), target.reward, target.penalty));
+
+// Chance of scoring against a keeper who dives according to `mix`
+export const getGoalChanceAgainst = (target: GoalTarget, mix: KeeperMix): number =>
+    KEEPER_DIVES.reduce((sum, dive, i) => sum + mix[i] * getGoalChance(target, dive), 0);
+
+// Rows are aim targets, columns are keeper dives; entries are the shooter's EV.
+export const getPayoffMatrix = (targets: readonly GoalTarget[]): number[][] =>
+    targets.map(target => KEEPER_DIVES.map(dive => getShotEV(target, dive)));
+
+export const getPenaltyEquilibrium = (targets: readonly GoalTarget[]): MatrixGameSolution =>
+    solveZeroSumGame(getPayoffMatrix(targets));
+
+// The adaptive keeper dives in proportion to where this shooter has aimed so
+// far, starting from one imaginary shot to each side so the first dives are
+// even.
+export const getAdaptiveKeeperMix = (shotSides: readonly KeeperDive[]): KeeperMix => {
+    const counts = KEEPER_DIVES.map(side => 1 + shotSides.filter(s => s === side).length);
+    const total = counts.reduce((sum, c) => sum + c, 0);
+    return counts.map(c => c / total) as KeeperMix;
+};
+
+export const normaliseKeeperMix = (weights: readonly number[]): KeeperMix => {
+    const clean = weights.map(w => (Number.isFinite(w) && w > 0 ? w : 0));
+    const total = clean.reduce((sum, w) => sum + w, 0);
+    return (total > 0 ? clean.map(w => w / total) : UNIFORM_KEEPER_MIX) as KeeperMix;
+};
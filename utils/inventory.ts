@@ -0,0 +1,92 @@
+// The Lucky Box inventory and collection sets. Won items stay in the
+// inventory until sold back, and collecting every item in a set is a
+// hands-on version of the coupon collector problem.
+
+import { GameEvent, InventoryItem, LuckyBox, LuckyBoxId, LuckyBoxItem } from '../types';
+import { couponCollectorExpectedTrials } from './probability';
+
+export const updateInventory = (inventory: InventoryItem[], event: GameEvent): InventoryItem[] => {
+    switch (event.type) {
+        case 'lucky-box-opened':
+            if (!event.addedToInventory) return inventory;
+            return [...inventory, { id: event.id, boxId: event.boxId, boxName: event.boxName, item: event.item }];
+        case 'lucky-box-item-sold':
+            return inventory.filter(entry => entry.id !== event.inventoryId);
+        default:
+            return inventory;
+    }
+};
+
+export interface InventoryStack {
+    item: LuckyBoxItem;
+    entries: InventoryItem[];
+}
+
+// Identical items are stacked, so ten Toy Cars show up as one row.
+export const stackInventory = (inventory: readonly InventoryItem[]): InventoryStack[] => {
+    const stacks = new Map<string, InventoryStack>();
+    inventory.forEach(entry => {
+        const key = `${entry.item.name}:${entry.item.value}`;
+        const stack = stacks.get(key);
+        if (stack) stack.entries.push(entry);
+        else stacks.set(key, { item: entry.item, entries: [entry] });
+    });
+    return [...stacks.values()].sort((a, b) => b.item.value - a.item.value);
+};
+
+export interface CollectionSet {
+    id: string;
+    name: string;
+    boxIds: LuckyBoxId[];
+    itemNames: string[];
+    // Chance of each item on one open, in itemNames order
+    probabilities: number[];
+}
+
+export interface CollectionProgress {
+    set: CollectionSet;
+    found: string[];
+    opens: number; // opens counted towards the set, up to the one that completed it
+    completed: boolean;
+    expectedOpens: number;
+}
+
+// One set per box, plus the full collection of every item in the shop. For
+// the full collection the expected opens assume a box is picked at random
+// each time, which is what makes each item's chance well defined.
+export const getCollectionSets = (boxes: readonly LuckyBox[]): CollectionSet[] => {
+    const boxSets = boxes.map(box => ({
+        id: `box-${box.id}`,
+        name: `${box.name} Set`,
+        boxIds: [box.id],
+        itemNames: box.items.map(item => item.name),
+        probabilities: box.items.map(item => item.probability),
+    }));
+    if (boxes.length < 2) return boxSets;
+
+    const itemNames = [...new Set(boxes.flatMap(box => box.items.map(item => item.name)))];
+    const probabilities = itemNames.map(name =>
+        boxes.reduce((sum, box) => sum + (box.items.find(item => item.name === name)?.probability ?? 0), 0) / boxes.length
+    );
+    return [...boxSets, { id: 'everything', name: 'Complete Collection', boxIds: boxes.map(b => b.id), itemNames, probabilities }];
+};
+
+// Replays the ledger in order, so selling an item doesn't undo having found
+// it.
+export const getCollectionProgress = (history: readonly GameEvent[], set: CollectionSet): CollectionProgress => {
+    const found = new Set<string>();
+    let opens = 0;
+    for (const event of history) {
+        if (found.size === set.itemNames.length) break;
+        if (event.type !== 'lucky-box-opened' || !set.boxIds.includes(event.boxId)) continue;
+        opens++;
+        if (set.itemNames.includes(event.item.name)) found.add(event.item.name);
+    }
+    return {
+        set,
+        found: set.itemNames.filter(name => found.has(name)),
+        opens,
+        completed: found.size === set.itemNames.length,
+        expectedOpens: couponCollectorExpectedTrials(set.probabilities),
+    };
+};
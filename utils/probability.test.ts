@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import {
+    binomialDistribution,
+    binomialProbability,
+    combinations,
+    couponCollectorExpectedTrials,
+    expectedValue,
+    geometricExpectedTrials,
+    geometricProbability,
+    hypergeometricProbability,
+    MAX_COUPON_TYPES,
+    netExpectedValue,
+    pityExpectedTrials,
+    probabilityOfSuccessWithin,
+    probabilityOfSuccessWithinWithPity,
+    standardDeviation,
+    successFailureOutcomes,
+    variance,
+} from './probability';
+
+// A fair die: values 1–6, each with chance 1/6
+const die = [1, 2, 3, 4, 5, 6].map(value => ({ value, probability: 1 / 6 }));
+
+describe('expected value and spread', () => {
+    it('averages outcomes by their chances', () => {
+        expect(expectedValue(die)).toBeCloseTo(3.5);
+        // 0.8 × 20 + 0.2 × (−30) = 10
+        expect(expectedValue(successFailureOutcomes(0.8, 20, -30))).toBeCloseTo(10);
+        expect(expectedValue([])).toBe(0);
+    });
+
+    it('computes variance and standard deviation', () => {
+        // E[X²] − E[X]² = 91/6 − 12.25 = 35/12
+        expect(variance(die)).toBeCloseTo(35 / 12);
+        expect(standardDeviation(die)).toBeCloseTo(Math.sqrt(35 / 12));
+        // 0.5 × 10² + 0.5 × 10² = 100 around a mean of 0
+        expect(variance(successFailureOutcomes(0.5, 10, -10))).toBeCloseTo(100);
+        expect(standardDeviation(successFailureOutcomes(0.5, 10, -10))).toBeCloseTo(10);
+        expect(variance([{ value: 7, probability: 1 }])).toBe(0);
+    });
+
+    it('subtracts the cost to play', () => {
+        expect(netExpectedValue(die, 4)).toBeCloseTo(-0.5);
+    });
+});
+
+describe('combinations', () => {
+    it('counts subsets', () => {
+        expect(combinations(5, 2)).toBe(10);
+        expect(combinations(10, 3)).toBe(120);
+        expect(combinations(52, 5)).toBe(2598960);
+        expect(combinations(6, 0)).toBe(1);
+        expect(combinations(6, 6)).toBe(1);
+    });
+
+    it('is zero outside 0 ≤ k ≤ n', () => {
+        expect(combinations(4, 5)).toBe(0);
+        expect(combinations(4, -1)).toBe(0);
+    });
+});
+
+describe('binomial', () => {
+    it('gives the chance of exactly k successes', () => {
+        // 3 × 0.5³ = 0.375
+        expect(binomialProbability(3, 2, 0.5)).toBeCloseTo(0.375);
+        // 4 × 0.2 × 0.8³ = 0.4096
+        expect(binomialProbability(4, 1, 0.2)).toBeCloseTo(0.4096);
+        expect(binomialProbability(5, 0, 0)).toBe(1);
+    });
+
+    it('lists a distribution that sums to 1', () => {
+        const dist = binomialDistribution(2, 0.3);
+        expect(dist).toHaveLength(3);
+        expect(dist[0]).toBeCloseTo(0.49);
+        expect(dist[1]).toBeCloseTo(0.42);
+        expect(dist[2]).toBeCloseTo(0.09);
+    });
+});
+
+describe('geometric', () => {
+    it('gives the chance the first success is on trial k', () => {
+        // 0.5² × 0.5
+        expect(geometricProbability(3, 0.5)).toBeCloseTo(0.125);
+        // 0.75 × 0.25
+        expect(geometricProbability(2, 0.25)).toBeCloseTo(0.1875);
+        expect(geometricProbability(0, 0.5)).toBe(0);
+    });
+
+    it('averages 1/p trials', () => {
+        expect(geometricExpectedTrials(0.25)).toBe(4);
+        expect(geometricExpectedTrials(0)).toBe(Infinity);
+    });
+
+    it('gives the chance of a success within k trials', () => {
+        // 1 − 0.9² = 0.19
+        expect(probabilityOfSuccessWithin(2, 0.1)).toBeCloseTo(0.19);
+        expect(probabilityOfSuccessWithin(0, 0.5)).toBe(0);
+    });
+});
+
+describe('hypergeometric', () => {
+    it('counts draws without replacement', () => {
+        // 2 red from a bag of 5 red and 5 blue, drawing 3: C(5,2)·C(5,1)/C(10,3) = 50/120
+        expect(hypergeometricProbability(10, 5, 3, 2)).toBeCloseTo(50 / 120);
+        // 1 ace in a 5-card hand: C(4,1)·C(48,4)/C(52,5) = 778320/2598960
+        expect(hypergeometricProbability(52, 4, 5, 1)).toBeCloseTo(778320 / 2598960);
+    });
+
+    it('is zero for impossible draws', () => {
+        expect(hypergeometricProbability(10, 2, 3, 3)).toBe(0);
+        expect(hypergeometricProbability(3, 1, 5, 1)).toBe(0);
+    });
+});
+
+describe('pity', () => {
+    it('shortens the average wait for a success', () => {
+        // Trial 1 always happens, trial 2 only after a miss: 1 + 0.75 = 1.75
+        expect(pityExpectedTrials(0.25, 2)).toBeCloseTo(1.75);
+        expect(pityExpectedTrials(0.5, 1)).toBe(1);
+        expect(pityExpectedTrials(0, 5)).toBe(5);
+        // A pity rule that never kicks in leaves the 1/p average
+        expect(pityExpectedTrials(0.1, 1000)).toBeCloseTo(10);
+    });
+
+    it('guarantees a success by the threshold', () => {
+        expect(probabilityOfSuccessWithinWithPity(3, 0.1, 3)).toBe(1);
+        expect(probabilityOfSuccessWithinWithPity(2, 0.1, 3)).toBeCloseTo(0.19);
+    });
+});
+
+describe('couponCollectorExpectedTrials', () => {
+    it('matches n × H(n) when every outcome is equally likely', () => {
+        // Two halves: 2 × (1 + 1/2) = 3
+        expect(couponCollectorExpectedTrials([0.5, 0.5])).toBeCloseTo(3);
+        // Three thirds: 3 × (1 + 1/2 + 1/3) = 5.5
+        expect(couponCollectorExpectedTrials([1 / 3, 1 / 3, 1 / 3])).toBeCloseTo(5.5);
+    });
+
+    it('waits longer for a rare outcome', () => {
+        // 1/0.75 + 1/0.25 − 1/1
+        expect(couponCollectorExpectedTrials([0.75, 0.25])).toBeCloseTo(13 / 3);
+    });
+
+    it('handles collections it cannot or need not finish', () => {
+        expect(couponCollectorExpectedTrials([])).toBe(0);
+        expect(couponCollectorExpectedTrials([1])).toBe(1);
+        expect(couponCollectorExpectedTrials([0.5, 0.5, 0])).toBe(Infinity);
+        expect(couponCollectorExpectedTrials(Array(MAX_COUPON_TYPES + 1).fill(1 / (MAX_COUPON_TYPES + 1)))).toBeNaN();
+    });
+});
@@ -0,0 +1,101 @@
+// Pure probability helpers used by the games and their Learn Mode panels.
+// Nothing here touches React or the random number service, so every number
+// a student sees in a Learn Mode can be traced back to one of these formulas.
+
+export interface Outcome {
+    value: number;
+    probability: number; // 0 to 1
+}
+
+export const expectedValue = (outcomes: readonly Outcome[]): number =>
+    outcomes.reduce((sum, o) => sum + o.value * o.probability, 0);
+
+export const variance = (outcomes: readonly Outcome[]): number => {
+    const mean = expectedValue(outcomes);
+    return outcomes.reduce((sum, o) => sum + o.probability * (o.value - mean) ** 2, 0);
+};
+
+export const standardDeviation = (outcomes: readonly Outcome[]): number => Math.sqrt(variance(outcomes));
+
+// Expected profit of a bet that costs `cost` to play.
+export const netExpectedValue = (outcomes: readonly Outcome[], cost: number): number =>
+    expectedValue(outcomes) - cost;
+
+// The two outcomes of a single success/failure trial, e.g. a shot or a crossing.
+export const successFailureOutcomes = (probability: number, reward: number, penalty: number): Outcome[] => [
+    { value: reward, probability },
+    { value: penalty, probability: 1 - probability },
+];
+
+// n choose k, computed multiplicatively to stay exact for classroom-sized n.
+export const combinations = (n: number, k: number): number => {
+    if (k < 0 || k > n) return 0;
+    const r = Math.min(k, n - k);
+    let result = 1;
+    for (let i = 1; i <= r; i++) {
+        result = (result * (n - r + i)) / i;
+    }
+    return Math.round(result);
+};
+
+// P(exactly k successes in n independent trials with success chance p)
+export const binomialProbability = (n: number, k: number, p: number): number =>
+    combinations(n, k) * p ** k * (1 - p) ** (n - k);
+
+// P(0), P(1), ... P(n) successes
+export const binomialDistribution = (n: number, p: number): number[] =>
+    Array.from({ length: n + 1 }, (_, k) => binomialProbability(n, k, p));
+
+// P(the first success happens on trial k), for k >= 1
+export const geometricProbability = (k: number, p: number): number =>
+    k < 1 ? 0 : (1 - p) ** (k - 1) * p;
+
+// Average number of trials needed to see the first success.
+export const geometricExpectedTrials = (p: number): number => (p > 0 ? 1 / p : Infinity);
+
+// P(at least one success within k trials)
+export const probabilityOfSuccessWithin = (k: number, p: number): number => 1 - (1 - p) ** Math.max(k, 0);
+
+// P(exactly k successes when drawing n items without replacement from a
+// population of N that contains K successes)
+export const hypergeometricProbability = (N: number, K: number, n: number, k: number): number => {
+    const total = combinations(N, n);
+    return total === 0 ? 0 : (combinations(K, k) * combinations(N - K, n - k)) / total;
+};
+
+// Inclusion–exclusion visits every subset of outcomes, so it is kept to
+// collections a classroom can realistically finish.
+export const MAX_COUPON_TYPES = 20;
+
+// Coupon collector: average number of draws needed to see every outcome at
+// least once, when each draw gives outcome i with chance probabilities[i].
+// By inclusion–exclusion, E = Σ over non-empty subsets S of (-1)^(|S|+1) / P(S).
+// Returns NaN for more than MAX_COUPON_TYPES outcomes.
+export const couponCollectorExpectedTrials = (probabilities: readonly number[]): number => {
+    const n = probabilities.length;
+    if (n === 0) return 0;
+    if (probabilities.some(p => p <= 0)) return Infinity;
+    if (n > MAX_COUPON_TYPES) return NaN;
+
+    // subsetTotals[mask] = P(S) for the subset whose members are the set bits of mask.
+    const subsetTotals = new Float64Array(1 << n);
+    let expected = 0;
+    for (let mask = 1; mask < 1 << n; mask++) {
+        const lowestBit = mask & -mask;
+        subsetTotals[mask] = subsetTotals[mask ^ lowestBit] + probabilities[31 - Math.clz32(lowestBit)];
+        let size = 0;
+        for (let m = mask; m; m &= m - 1) size++;
+        expected += (size % 2 === 1 ? 1 : -1) / subsetTotals[mask];
+    }
+    return expected;
+};
+
+// A "pity" rule guarantees a success on trial `threshold` if the ones before it
+// all failed. Average trials to the first success: Σ P(no success in the
+// first j trials) for j = 0 … threshold - 1 = (1 - (1 - p)^threshold) / p.
+export const pityExpectedTrials = (p: number, threshold: number): number =>
+    p > 0 ? (1 - (1 - p) ** threshold) / p : threshold;
+
+// P(at least one success within k trials) when the pity rule applies.
+export const probabilityOfSuccessWithinWithPity = (k: number, p: number, threshold: number): number =>
+    k >= threshold ? 1 : probabilityOfSuccessWithin(k, p);
@@ -0,0 +1,98 @@
+// Generates multiple-choice probability questions from the game content, so a
+// bankrupt player earns points back by practising the maths behind the games.
+
+import { ContentPack, QuizQuestion } from '../types';
+import { expectedValue, binomialProbability } from './probability';
+import { createRng, Rng } from './random';
+
+const CHOICE_COUNT = 4;
+
+// The quiz gets its own stream so it doesn't use up the class seed sequence.
+const rng = createRng();
+
+const formatPercent = (p: number) => `${(p * 100).toFixed(1)}%`;
+const formatPoints = (v: number) => `${v.toFixed(2)} PP`;
+
+// Shuffles the correct answer in with distinct distractors.
+const buildQuestion = (
+    prompt: string,
+    correct: number,
+    distractors: number[],
+    format: (value: number) => string,
+    explanation: string,
+    random: Rng
+): QuizQuestion => {
+    const correctText = format(correct);
+    const wrongTexts = [...new Set(distractors.map(format))].filter(text => text !== correctText);
+    let nudge = 1;
+    while (wrongTexts.length < CHOICE_COUNT - 1) {
+        const text = format(correct + (Math.abs(correct) || 0.1) * 0.25 * nudge);
+        if (text !== correctText && !wrongTexts.includes(text)) wrongTexts.push(text);
+        nudge++;
+    }
+    const choices = random.shuffle([correctText, ...wrongTexts.slice(0, CHOICE_COUNT - 1)]);
+    return { prompt, choices, answerIndex: choices.indexOf(correctText), explanation };
+};
+
+const boxQuestion = (content: ContentPack, random: Rng): QuizQuestion => {
+    const box = content.luckyBoxes[random.int(0, content.luckyBoxes.length - 1)];
+    const ev = expectedValue(box.items);
+    const average = box.items.reduce((sum, i) => sum + i.value, 0) / box.items.length;
+    const top = box.items.reduce((best, i) => (i.value > best.value ? i : best), box.items[0]);
+    return buildQuestion(
+        `What is the expected value of one ${box.name}? (${box.items.map(i => `${i.name}: ${i.value} PP at ${(i.probability * 100).toFixed(0)}%`).join(', ')})`,
+        ev,
+        [average, box.price, top.value * top.probability],
+        formatPoints,
+        `Multiply each value by its probability and add them up: ${box.items.map(i => `${i.probability} × ${i.value}`).join(' + ')} = ${formatPoints(ev)}.`,
+        random
+    );
+};
+
+const goalQuestion = (content: ContentPack, random: Rng): QuizQuestion => {
+    const target = content.goalTargets[random.int(0, content.goalTargets.length - 1)];
+    const shots = 3;
+    const answer = target.probability ** shots;
+    return buildQuestion(
+        `A shot at ${target.name} scores ${formatPercent(target.probability)} of the time. What is the chance of scoring ${shots} shots in a row?`,
+        answer,
+        [target.probability, target.probability * shots, 1 - (1 - target.probability) ** shots],
+        formatPercent,
+        `The shots are independent, so multiply: ${target.probability} × ${target.probability} × ${target.probability} = ${formatPercent(answer)}.`,
+        random
+    );
+};
+
+const bridgeQuestion = (content: ContentPack, random: Rng): QuizQuestion => {
+    const crossings = content.survivalBridge.crossings;
+    const config = crossings[random.int(0, crossings.length - 1)];
+    const failChance = 1 - config.probability;
+    return buildQuestion(
+        `Sending ${config.count} adventurer(s) across the bridge succeeds ${formatPercent(config.probability)} of the time. What is the chance the bridge collapses?`,
+        failChance,
+        [config.probability, failChance / 2, Math.min(1, failChance * 2)],
+        formatPercent,
+        `The bridge either holds or collapses, so P(collapse) = 1 − ${config.probability} = ${formatPercent(failChance)}.`,
+        random
+    );
+};
+
+const binomialQuestion = (content: ContentPack, random: Rng): QuizQuestion => {
+    const target = content.goalTargets[random.int(0, content.goalTargets.length - 1)];
+    const n = 4;
+    const k = random.int(1, n - 1);
+    const answer = binomialProbability(n, k, target.probability);
+    return buildQuestion(
+        `You take ${n} shots at ${target.name} (${formatPercent(target.probability)} each). What is the chance of scoring exactly ${k}?`,
+        answer,
+        [target.probability ** k, k / n, binomialProbability(n, k, 1 - target.probability)],
+        formatPercent,
+        `Use the binomial formula: C(${n}, ${k}) × ${target.probability}^${k} × ${(1 - target.probability).toFixed(2)}^${n - k} = ${formatPercent(answer)}.`,
+        random
+    );
+};
+
+const QUESTION_MAKERS = [boxQuestion, goalQuestion, bridgeQuestion, binomialQuestion];
+
+export const generateQuizQuestion = (content: ContentPack, random: Rng = rng): QuizQuestion =>
+    QUESTION_MAKERS[random.int(0, QUESTION_MAKERS.length - 1)](content, random);
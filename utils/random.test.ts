@@ -0,0 +1,64 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { createRng, forkRng, getSeed, random, setSeed, shuffle } from './random';
+
+const draw = (next: () => number, count = 5) => Array.from({ length: count }, next);
+
+afterEach(() => setSeed(null));
+
+describe('seeding', () => {
+    it('repeats the same sequence for the same seed', () => {
+        setSeed('class-7b');
+        const first = draw(random);
+        setSeed('class-7b');
+        expect(draw(random)).toEqual(first);
+        expect(getSeed()).toBe('class-7b');
+
+        setSeed('class-7c');
+        expect(draw(random)).not.toEqual(first);
+    });
+
+    it('accepts numbers and words alike', () => {
+        expect(draw(createRng(42).next)).toEqual(draw(createRng('42').next));
+        draw(createRng('sunflower').next).forEach(value => {
+            expect(value).toBeGreaterThanOrEqual(0);
+            expect(value).toBeLessThan(1);
+        });
+    });
+
+    it('shuffles the same way for the same seed', () => {
+        const items = [1, 2, 3, 4, 5, 6, 7, 8];
+        setSeed('lineup');
+        const first = shuffle(items);
+        setSeed('lineup');
+        expect(shuffle(items)).toEqual(first);
+        expect([...first].sort()).toEqual(items);
+    });
+});
+
+describe('forkRng', () => {
+    it('does not move the shared stream', () => {
+        setSeed('class-7b');
+        const expected = draw(random);
+
+        setSeed('class-7b');
+        draw(forkRng('simulation').next, 1000);
+        expect(draw(random)).toEqual(expected);
+    });
+
+    it('gives the same stream for the same label under a seed', () => {
+        setSeed('class-7b');
+        const first = draw(forkRng('simulation').next);
+        expect(draw(forkRng('simulation').next)).toEqual(first);
+        expect(draw(forkRng('other').next)).not.toEqual(first);
+    });
+});
+
+describe('weightedPick', () => {
+    it('still picks an item when the chances do not add up to 1', () => {
+        const rng = createRng('weights');
+        const items = [{ name: 'a', probability: 0.2 }, { name: 'b', probability: 0.2 }];
+        const picked = new Set(Array.from({ length: 50 }, () => rng.weightedPick(items).name));
+        expect([...picked].sort()).toEqual(['a', 'b']);
+        expect(() => rng.weightedPick([])).toThrow();
+    });
+});
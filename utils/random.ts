@@ -0,0 +1,92 @@
+// Seedable random numbers shared by all the games. With no seed set the games
+// use Math.random; once a teacher enters a seed, every device that uses the
+// same seed sees the same sequence of outcomes.
+
+export interface Rng {
+    next: () => number;
+    int: (min: number, max: number) => number;
+    bernoulli: (p: number) => boolean;
+    weightedPick: <T extends { probability: number }>(items: readonly T[]) => T;
+    shuffle: <T>(items: readonly T[]) => T[];
+}
+
+// FNV-1a, so seeds can be typed as words as well as numbers.
+const hashSeed = (seed: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < seed.length; i++) {
+        hash ^= seed.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+// Mulberry32: tiny, fast and good enough for classroom games.
+const mulberry32 = (seed: number) => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+export const createRng = (seed?: string | number | null): Rng => {
+    const next = seed === undefined || seed === null ? Math.random : mulberry32(hashSeed(String(seed)));
+
+    const int = (min: number, max: number) => min + Math.floor(next() * (max - min + 1));
+
+    const bernoulli = (p: number) => next() < p;
+
+    // Weights are normalised by their total, so a table whose probabilities
+    // don't quite add up to 1 still always returns an item.
+    const weightedPick = <T extends { probability: number }>(items: readonly T[]): T => {
+        if (items.length === 0) {
+            throw new Error('Cannot pick from an empty list.');
+        }
+        const total = items.reduce((sum, item) => sum + Math.max(item.probability, 0), 0);
+        let threshold = next() * total;
+        for (const item of items) {
+            threshold -= Math.max(item.probability, 0);
+            if (threshold < 0) return item;
+        }
+        return items[items.length - 1];
+    };
+
+    const shuffle = <T,>(items: readonly T[]): T[] => {
+        const result = [...items];
+        for (let i = result.length - 1; i > 0; i--) {
+            const j = int(0, i);
+            [result[i], result[j]] = [result[j], result[i]];
+        }
+        return result;
+    };
+
+    return { next, int, bernoulli, weightedPick, shuffle };
+};
+
+let sharedSeed: string | null = null;
+let shared = createRng();
+
+export const setSeed = (seed: string | null) => {
+    sharedSeed = seed;
+    shared = createRng(seed);
+};
+
+export const getSeed = () => sharedSeed;
+
+// A separate stream for simulations, so running thousands of practice draws
+// doesn't move the class seed's sequence of real game results. With a class
+// seed set, the same label always gives the same stream.
+export const forkRng = (label: string): Rng => createRng(sharedSeed === null ? null : `${sharedSeed}:${label}`);
+
+export const random = () => shared.next();
+
+export const randomInt = (min: number, max: number) => shared.int(min, max);
+
+export const bernoulli = (p: number) => shared.bernoulli(p);
+
+export const weightedPick = <T extends { probability: number }>(items: readonly T[]): T => shared.weightedPick(items);
+
+export const shuffle = <T,>(items: readonly T[]): T[] => shared.shuffle(items);
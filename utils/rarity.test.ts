@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { LuckyBox } from '../types';
+import { isPityDue, pityExpectedValue } from './rarity';
+
+const box: LuckyBox = {
+    id: 1,
+    name: 'Test Box',
+    price: 30,
+    color: 'bg-gray-500',
+    items: [
+        { name: 'Sticker', value: 10, probability: 0.75, rarity: 'common' },
+        { name: 'Trophy', value: 100, probability: 0.25, rarity: 'rare' },
+    ],
+};
+
+describe('isPityDue', () => {
+    it('forces a top-tier item on the threshold-th open in a row without one', () => {
+        const rule = { enabled: true, threshold: 3 };
+        expect(isPityDue(rule, 1)).toBe(false);
+        expect(isPityDue(rule, 2)).toBe(true);
+        expect(isPityDue({ ...rule, enabled: false }, 2)).toBe(false);
+    });
+});
+
+describe('pityExpectedValue', () => {
+    it('averages item value over the runs the pity rule creates', () => {
+        // A run averages 1.75 opens, so 0.75 Stickers and one Trophy:
+        // (100 + 0.75 × 10) ÷ 1.75
+        expect(pityExpectedValue(box, 2)).toBeCloseTo(107.5 / 1.75);
+    });
+
+    it('matches the plain expected value when the rule never kicks in', () => {
+        // 0.75 × 10 + 0.25 × 100
+        expect(pityExpectedValue(box, 1000)).toBeCloseTo(32.5);
+    });
+});
@@ -0,0 +1,69 @@
+// Rarity odds for the Lucky Box Shop: how rare each box's best tier really
+// is, how long a "drought" has lasted, and what an optional pity rule does to
+// the advertised odds. The numbers are the ones real loot-box games hide.
+
+import { GameEvent, LuckyBox, LuckyBoxItem, PityRule } from '../types';
+import { LUCKY_BOX_RARITIES } from '../constants';
+import { expectedValue, pityExpectedTrials } from './probability';
+import { weightedPick } from './random';
+
+// The rarest tier that actually appears in the box.
+export const getTopTier = (box: LuckyBox): LuckyBoxItem['rarity'] =>
+    box.items.reduce<LuckyBoxItem['rarity']>(
+        (top, item) => LUCKY_BOX_RARITIES.indexOf(item.rarity) > LUCKY_BOX_RARITIES.indexOf(top) ? item.rarity : top,
+        'common'
+    );
+
+export const getTopTierItems = (box: LuckyBox): LuckyBoxItem[] => {
+    const top = getTopTier(box);
+    return box.items.filter(item => item.rarity === top);
+};
+
+export const getTierChances = (box: LuckyBox): { rarity: LuckyBoxItem['rarity']; probability: number }[] =>
+    LUCKY_BOX_RARITIES
+        .map(rarity => ({
+            rarity,
+            probability: box.items.filter(item => item.rarity === rarity).reduce((sum, item) => sum + item.probability, 0),
+        }))
+        .filter(tier => box.items.some(item => item.rarity === tier.rarity));
+
+export const getTopTierChance = (box: LuckyBox): number =>
+    getTopTierItems(box).reduce((sum, item) => sum + item.probability, 0);
+
+// Opens of this box since the player last got a top-tier item from it.
+export const getDroughtCount = (history: readonly GameEvent[], box: LuckyBox): number => {
+    const top = getTopTier(box);
+    let drought = 0;
+    for (let i = history.length - 1; i >= 0; i--) {
+        const event = history[i];
+        if (event.type !== 'lucky-box-opened' || event.boxId !== box.id) continue;
+        if (event.item.rarity === top) break;
+        drought++;
+    }
+    return drought;
+};
+
+export const isPityDue = (rule: PityRule, drought: number): boolean =>
+    rule.enabled && drought >= rule.threshold - 1;
+
+// Draws an item, forcing a top-tier one when the pity rule says it is due.
+export const openWithPity = (box: LuckyBox, rule: PityRule, drought: number): { item: LuckyBoxItem; pityApplied: boolean } => {
+    if (isPityDue(rule, drought)) {
+        return { item: weightedPick(getTopTierItems(box)), pityApplied: true };
+    }
+    return { item: weightedPick(box.items), pityApplied: false };
+};
+
+// Long-run average item value per open under the pity rule. Each run of opens
+// ends with one top-tier item; every open before it is a lower-tier one.
+export const pityExpectedValue = (box: LuckyBox, threshold: number): number => {
+    const topItems = getTopTierItems(box);
+    const otherItems = box.items.filter(item => !topItems.includes(item));
+    const p = getTopTierChance(box);
+    if (p <= 0 || p >= 1) return expectedValue(box.items);
+
+    const topValue = expectedValue(topItems) / p;
+    const otherValue = expectedValue(otherItems) / (1 - p);
+    const runLength = pityExpectedTrials(p, threshold);
+    return (topValue + (runLength - 1) * otherValue) / runLength;
+};
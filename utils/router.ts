@@ -0,0 +1,92 @@
+// Hash-based routing so every game and Learn Mode has a link teachers can
+// share, and the browser's back/forward buttons move between pages instead of
+// leaving the app. Routes look like #/find-the-thief or #/find-the-thief/learn.
+
+import { useState, useEffect, useCallback } from 'react';
+import { Game } from '../types';
+
+export type Page = Game | 'dashboard' | 'statistics' | 'content';
+
+export interface Route {
+    page: Page;
+    learnMode: boolean;
+}
+
+export const GAME_ROUTES: Record<Game, string> = {
+    [Game.LuckyBox]: 'lucky-box-shop',
+    [Game.FindTheThief]: 'find-the-thief',
+    [Game.SurvivalBridge]: 'survival-bridge',
+    [Game.GoalOrMiss]: 'goal-or-miss',
+    [Game.AiCoach]: 'ai-coach',
+};
+
+const STATISTICS_SLUG = 'statistics';
+const CONTENT_SLUG = 'content-packs';
+const LEARN_SEGMENT = 'learn';
+const ROUTE_CHANGE_EVENT = 'chance-champions:route-change';
+
+export const parseRoute = (hash: string): Route => {
+    const [slug, extra] = hash.replace(/^#\/?/, '').split('/');
+    if (slug === STATISTICS_SLUG) return { page: 'statistics', learnMode: false };
+    if (slug === CONTENT_SLUG) return { page: 'content', learnMode: false };
+    const game = (Object.keys(GAME_ROUTES) as Game[]).find(g => GAME_ROUTES[g] === slug);
+    if (!game) return { page: 'dashboard', learnMode: false };
+    return { page: game, learnMode: extra === LEARN_SEGMENT };
+};
+
+export const routeToHash = ({ page, learnMode }: Route): string => {
+    if (page === 'dashboard') return '#/';
+    if (page === 'statistics') return `#/${STATISTICS_SLUG}`;
+    if (page === 'content') return `#/${CONTENT_SLUG}`;
+    return `#/${GAME_ROUTES[page]}${learnMode ? `/${LEARN_SEGMENT}` : ''}`;
+};
+
+export const navigate = (route: Route, options: { replace?: boolean; state?: unknown } = {}) => {
+    const hash = routeToHash(route);
+    if (hash === window.location.hash && !options.replace) return;
+    if (options.replace) {
+        window.history.replaceState(options.state ?? null, '', hash);
+    } else {
+        window.history.pushState(options.state ?? null, '', hash);
+    }
+    // pushState doesn't fire hashchange, so tell useRoute about it ourselves.
+    window.dispatchEvent(new Event(ROUTE_CHANGE_EVENT));
+};
+
+export const useRoute = (): Route => {
+    const [hash, setHash] = useState(() => window.location.hash);
+
+    useEffect(() => {
+        const handleChange = () => setHash(window.location.hash);
+        window.addEventListener('hashchange', handleChange);
+        window.addEventListener('popstate', handleChange);
+        window.addEventListener(ROUTE_CHANGE_EVENT, handleChange);
+        return () => {
+            window.removeEventListener('hashchange', handleChange);
+            window.removeEventListener('popstate', handleChange);
+            window.removeEventListener(ROUTE_CHANGE_EVENT, handleChange);
+        };
+    }, []);
+
+    return parseRoute(hash);
+};
+
+// Drop-in replacement for a game's `showLearnMode` state that keeps the
+// Learn Mode modal in the URL. Closing a modal we opened goes back in
+// history, so the back button never reopens it.
+export const useLearnMode = (game: Game): [boolean, (open: boolean) => void] => {
+    const route = useRoute();
+    const isOpen = route.page === game && route.learnMode;
+
+    const setOpen = useCallback((open: boolean) => {
+        if (open) {
+            navigate({ page: game, learnMode: true }, { state: { openedLearnMode: true } });
+        } else if (window.history.state?.openedLearnMode) {
+            window.history.back();
+        } else {
+            navigate({ page: game, learnMode: false }, { replace: true });
+        }
+    }, [game]);
+
+    return [isOpen, setOpen];
+};
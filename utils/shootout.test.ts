@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { ShootoutKick, getNextShooter, getShootoutWinProbability, getShootoutWinner } from './shootout';
+
+// Builds a kick list from rounds like ['GM', 'GG']: the player's kick, then the CPU's.
+const kicksFrom = (rounds: string[]): ShootoutKick[] =>
+    rounds.flatMap(round => [...round].map((k, i) => ({ side: i === 0 ? 'player' : 'cpu', scored: k === 'G' } as ShootoutKick)));
+
+describe('getNextShooter', () => {
+    it('alternates, player first', () => {
+        expect(getNextShooter([])).toBe('player');
+        expect(getNextShooter(kicksFrom(['G']))).toBe('cpu');
+        expect(getNextShooter(kicksFrom(['GM']))).toBe('player');
+    });
+});
+
+describe('getShootoutWinner', () => {
+    it('ends regulation early once one side cannot catch up', () => {
+        // 3–0 after three rounds: the CPU has two kicks left and can reach 2 at most
+        expect(getShootoutWinner(kicksFrom(['GM', 'GM', 'GM']))).toBe('player');
+        // 0–3 with the player still to kick in round 4: at most 2 more goals
+        expect(getShootoutWinner(kicksFrom(['MG', 'MG', 'MG']))).toBe('cpu');
+        expect(getShootoutWinner(kicksFrom(['GM', 'GM']))).toBeNull();
+    });
+
+    it('only decides sudden death once both sides have kicked', () => {
+        const level = ['GG', 'GG', 'GG', 'GG', 'GG'];
+        expect(getShootoutWinner(kicksFrom([...level, 'G']))).toBeNull();
+        expect(getShootoutWinner(kicksFrom([...level, 'GM']))).toBe('player');
+        expect(getShootoutWinner(kicksFrom([...level, 'GG', 'MG']))).toBe('cpu');
+    });
+});
+
+describe('getShootoutWinProbability', () => {
+    it('is 0.5 when both sides are equally good', () => {
+        [0.3, 0.5, 0.75].forEach(p => expect(getShootoutWinProbability([], p, p)).toBeCloseTo(0.5));
+    });
+
+    it('is 1 or 0 once the shootout is decided', () => {
+        expect(getShootoutWinProbability(kicksFrom(['GM', 'GM', 'GM']), 0.1, 0.9)).toBe(1);
+        expect(getShootoutWinProbability(kicksFrom(['MG', 'MG', 'MG']), 0.9, 0.1)).toBe(0);
+    });
+
+    it('handles sudden death with the CPU still to kick', () => {
+        const level = ['GG', 'GG', 'GG', 'GG', 'GG'];
+        const p = 0.6;
+        const q = 0.8;
+        // Sudden death from a level round: p(1 − q) / (p(1 − q) + (1 − p)q) = 0.12 / 0.44
+        const suddenDeath = 0.12 / 0.44;
+        // Player scored: win if the CPU misses, else go again
+        expect(getShootoutWinProbability(kicksFrom([...level, 'G']), p, q)).toBeCloseTo(0.2 + 0.8 * suddenDeath);
+        // Player missed: the CPU has to miss too, then go again
+        expect(getShootoutWinProbability(kicksFrom([...level, 'M']), p, q)).toBeCloseTo(0.2 * suddenDeath);
+    });
+
+    it('stays the same on average after a kick', () => {
+        const p = 0.7;
+        const q = 0.65;
+        const before = kicksFrom(['GM', 'G']);
+        const expected = q * getShootoutWinProbability([...before, { side: 'cpu', scored: true }], p, q)
+            + (1 - q) * getShootoutWinProbability([...before, { side: 'cpu', scored: false }], p, q);
+        expect(getShootoutWinProbability(before, p, q)).toBeCloseTo(expected);
+    });
+});
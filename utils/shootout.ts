@@ -0,0 +1,83 @@
+// Penalty shootouts for Goal or Miss: five kicks each, the player first in
+// every round, then sudden death until one side scores and the other misses.
+// Every kick is independent, so the chance of winning from any score can be
+// worked out exactly from each side's chance of scoring a kick.
+
+import { binomialDistribution } from './probability';
+
+export const SHOOTOUT_ROUNDS = 5;
+
+export type ShootoutSide = 'player' | 'cpu';
+
+export interface ShootoutKick {
+    side: ShootoutSide;
+    scored: boolean;
+}
+
+export interface ShootoutScore {
+    player: number;
+    cpu: number;
+    playerKicks: number;
+    cpuKicks: number;
+}
+
+export const getShootoutScore = (kicks: readonly ShootoutKick[]): ShootoutScore => ({
+    player: kicks.filter(k => k.side === 'player' && k.scored).length,
+    cpu: kicks.filter(k => k.side === 'cpu' && k.scored).length,
+    playerKicks: kicks.filter(k => k.side === 'player').length,
+    cpuKicks: kicks.filter(k => k.side === 'cpu').length,
+});
+
+export const getNextShooter = (kicks: readonly ShootoutKick[]): ShootoutSide => {
+    const { playerKicks, cpuKicks } = getShootoutScore(kicks);
+    return playerKicks > cpuKicks ? 'cpu' : 'player';
+};
+
+// In the first five rounds a shootout ends as soon as one side can't catch
+// up; in sudden death only after both sides have kicked.
+export const getShootoutWinner = (kicks: readonly ShootoutKick[]): ShootoutSide | null => {
+    const { player, cpu, playerKicks, cpuKicks } = getShootoutScore(kicks);
+    if (playerKicks <= SHOOTOUT_ROUNDS && cpuKicks <= SHOOTOUT_ROUNDS) {
+        if (player + (SHOOTOUT_ROUNDS - playerKicks) < cpu) return 'cpu';
+        if (cpu + (SHOOTOUT_ROUNDS - cpuKicks) < player) return 'player';
+        return null;
+    }
+    if (playerKicks === cpuKicks && player !== cpu) return player > cpu ? 'player' : 'cpu';
+    return null;
+};
+
+// Chance of winning sudden death from the start of a round, where each side
+// scores with chance p (player) and q (CPU). A round is decided when exactly
+// one side scores, so only the ratio of those two chances matters.
+const suddenDeathWinProbability = (p: number, q: number): number => {
+    const win = p * (1 - q);
+    const lose = (1 - p) * q;
+    return win + lose > 0 ? win / (win + lose) : 0.5;
+};
+
+export const getShootoutWinProbability = (kicks: readonly ShootoutKick[], p: number, q: number): number => {
+    const winner = getShootoutWinner(kicks);
+    if (winner) return winner === 'player' ? 1 : 0;
+
+    const { player, cpu, playerKicks, cpuKicks } = getShootoutScore(kicks);
+    const suddenDeath = suddenDeathWinProbability(p, q);
+
+    if (playerKicks <= SHOOTOUT_ROUNDS && cpuKicks <= SHOOTOUT_ROUNDS) {
+        // Play out every remaining regulation kick; stopping early when the
+        // result is settled doesn't change who wins.
+        const playerGoals = binomialDistribution(SHOOTOUT_ROUNDS - playerKicks, p);
+        const cpuGoals = binomialDistribution(SHOOTOUT_ROUNDS - cpuKicks, q);
+        let total = 0;
+        playerGoals.forEach((pi, i) => cpuGoals.forEach((qj, j) => {
+            const diff = player + i - (cpu + j);
+            total += pi * qj * (diff > 0 ? 1 : diff === 0 ? suddenDeath : 0);
+        }));
+        return total;
+    }
+
+    // Sudden death, with the CPU still to kick this round
+    if (playerKicks > cpuKicks) {
+        return player > cpu ? (1 - q) + q * suddenDeath : (1 - q) * suddenDeath;
+    }
+    return suddenDeath;
+};
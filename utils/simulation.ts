@@ -0,0 +1,50 @@
+// Fast, animation-free simulations paid for with virtual points, so a class
+// can watch thousands of trials settle towards the expected value without
+// touching anyone's real balance or history.
+
+import { LuckyBox } from '../types';
+import { Rng } from './random';
+import { FrequencyRow, runningAverages } from './statistics';
+
+export const SIMULATION_BATCH_SIZES = [10, 100, 10000];
+
+export interface BoxSimulation {
+    counts: number[]; // wins per item, in the same order as box.items
+    profits: number[]; // item value minus price, one entry per box opened
+}
+
+export const emptyBoxSimulation = (box: LuckyBox): BoxSimulation => ({
+    counts: box.items.map(() => 0),
+    profits: [],
+});
+
+// Opens `count` more boxes on top of an earlier simulation.
+export const simulateBoxOpenings = (box: LuckyBox, count: number, rng: Rng, previous: BoxSimulation = emptyBoxSimulation(box)): BoxSimulation => {
+    const counts = [...previous.counts];
+    const profits = [...previous.profits];
+    for (let i = 0; i < count; i++) {
+        const item = rng.weightedPick(box.items);
+        counts[box.items.indexOf(item)]++;
+        profits.push(item.value - box.price);
+    }
+    return { counts, profits };
+};
+
+export const summariseBoxSimulation = (box: LuckyBox, simulation: BoxSimulation) => {
+    const opened = simulation.profits.length;
+    const frequencies: FrequencyRow[] = box.items.map((item, i) => ({
+        label: item.name,
+        count: simulation.counts[i],
+        observed: opened > 0 ? simulation.counts[i] / opened : 0,
+        expected: item.probability,
+    }));
+    const averages = runningAverages(simulation.profits);
+    return {
+        opened,
+        frequencies,
+        runningAverages: averages,
+        spent: opened * box.price,
+        won: simulation.profits.reduce((sum, profit) => sum + profit + box.price, 0),
+        averageProfit: opened > 0 ? averages[averages.length - 1] : 0,
+    };
+};
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { ConfidenceInterval, wilsonInterval } from './skill';
+
+describe('wilsonInterval', () => {
+    it('gives the 95% range for 7 goals from 10 shots', () => {
+        const interval = wilsonInterval(7, 10);
+        expect(interval.estimate).toBe(0.7);
+        expect(interval.low).toBeCloseTo(0.3968, 4);
+        expect(interval.high).toBeCloseTo(0.8922, 4);
+    });
+
+    it('covers everything before the first shot', () => {
+        expect(wilsonInterval(0, 0)).toEqual({ estimate: 0, low: 0, high: 1 });
+    });
+
+    it('stays inside 0–1 at the extremes', () => {
+        const none = wilsonInterval(0, 5);
+        expect(none.low).toBe(0);
+        expect(none.high).toBeCloseTo(0.4345, 4);
+
+        const all = wilsonInterval(10, 10);
+        expect(all.low).toBeCloseTo(0.7225, 4);
+        expect(all.high).toBe(1);
+    });
+
+    it('narrows as shots add up', () => {
+        const width = ({ low, high }: ConfidenceInterval) => high - low;
+        expect(width(wilsonInterval(70, 100))).toBeLessThan(width(wilsonInterval(7, 10)));
+    });
+});
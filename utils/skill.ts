@@ -0,0 +1,51 @@
+// Skill practice for Goal or Miss. Each player has their own hidden accuracy
+// for every target, somewhere near the target's listed chance, and the game
+// estimates it from the shots they've actually taken.
+
+import { GameEvent, GoalTarget } from '../types';
+import { createRng } from './random';
+
+// How far a player's hidden accuracy can sit from the target's listed chance
+export const SKILL_SPREAD = 0.2;
+
+// z for a 95% confidence interval
+export const CONFIDENCE_Z = 1.96;
+
+// Seeded by player and target, not by the class seed, so a player's accuracy
+// stays the same from one session to the next.
+export const getHiddenAccuracy = (profileId: string, target: GoalTarget): number => {
+    const offset = (createRng(`skill:${profileId}:${target.id}`).next() * 2 - 1) * SKILL_SPREAD;
+    return Math.min(0.95, Math.max(0.05, target.probability + offset));
+};
+
+export interface ConfidenceInterval {
+    estimate: number; // the observed success rate
+    low: number;
+    high: number;
+}
+
+// The Wilson score interval. Unlike "rate ± z·standard error" it stays
+// inside 0–1 and still gives a sensible range after 0 or 1 shots.
+export const wilsonInterval = (successes: number, trials: number, z = CONFIDENCE_Z): ConfidenceInterval => {
+    if (trials === 0) return { estimate: 0, low: 0, high: 1 };
+    const rate = successes / trials;
+    const z2 = z * z;
+    const denominator = 1 + z2 / trials;
+    const centre = (rate + z2 / (2 * trials)) / denominator;
+    const halfWidth = (z / denominator) * Math.sqrt(rate * (1 - rate) / trials + z2 / (4 * trials * trials));
+    return { estimate: rate, low: Math.max(0, centre - halfWidth), high: Math.min(1, centre + halfWidth) };
+};
+
+export interface SkillEstimate {
+    target: GoalTarget;
+    attempts: number;
+    goals: number;
+    interval: ConfidenceInterval;
+}
+
+export const getSkillEstimates = (history: readonly GameEvent[], targets: readonly GoalTarget[]): SkillEstimate[] =>
+    targets.map(target => {
+        const shots = history.filter(e => e.type === 'goal-shot' && e.skill && e.targetId === target.id);
+        const goals = shots.filter(e => e.type === 'goal-shot' && e.scored).length;
+        return { target, attempts: shots.length, goals, interval: wilsonInterval(goals, shots.length) };
+    });
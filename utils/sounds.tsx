@@ -13,11 +13,12 @@ const getAudioContext = (): AudioContext | null => {
     return audioCtx;
 };
 
-export const toggleMute = () => {
-    const ctx = getAudioContext();
+export const setMuted = (muted: boolean) => {
+    isMuted = muted;
+    // Don't create the context just to mute it; playTone checks the flag anyway.
+    const ctx = audioCtx;
     if (!ctx) return;
-    
-    isMuted = !isMuted;
+
     if (isMuted && ctx.state === 'running') {
         ctx.suspend();
     } else if (!isMuted && ctx.state === 'suspended') {
@@ -0,0 +1,105 @@
+// Turns a player's event ledger into experimental statistics that can be
+// compared with the configured (theoretical) probabilities and expected values.
+
+import { GameEvent, GoalTarget, LuckyBox } from '../types';
+import { expectedValue, netExpectedValue, successFailureOutcomes } from './probability';
+
+export interface FrequencyRow {
+    label: string;
+    count: number;
+    observed: number; // share of trials, 0 to 1
+    expected: number; // configured probability, 0 to 1
+}
+
+export interface OutcomeStats {
+    id: string;
+    label: string;
+    trials: number;
+    frequencies: FrequencyRow[];
+    expectedPayoff: number;
+    averagePayoff: number;
+    runningAverages: number[];
+}
+
+interface BridgeRow {
+    count: number;
+    probability: number;
+    reward: number;
+    penalty: number;
+}
+
+export const runningAverages = (values: readonly number[]): number[] => {
+    let total = 0;
+    return values.map((value, i) => {
+        total += value;
+        return total / (i + 1);
+    });
+};
+
+const summarisePayoffs = (payoffs: number[]) => {
+    const averages = runningAverages(payoffs);
+    return { averagePayoff: averages.length > 0 ? averages[averages.length - 1] : 0, runningAverages: averages };
+};
+
+const successRow = (label: string, successes: number, trials: number, probability: number): FrequencyRow => ({
+    label,
+    count: successes,
+    observed: trials > 0 ? successes / trials : 0,
+    expected: probability,
+});
+
+export const getLuckyBoxStats = (history: readonly GameEvent[], boxes: readonly LuckyBox[]): OutcomeStats[] =>
+    boxes.map(box => {
+        const opens = history.filter((e): e is Extract<GameEvent, { type: 'lucky-box-opened' }> =>
+            e.type === 'lucky-box-opened' && e.boxId === box.id
+        );
+        const frequencies = box.items.map(item => {
+            const count = opens.filter(e => e.item.name === item.name).length;
+            return { label: item.name, count, observed: opens.length > 0 ? count / opens.length : 0, expected: item.probability };
+        });
+        return {
+            id: String(box.id),
+            label: box.name,
+            trials: opens.length,
+            frequencies,
+            expectedPayoff: netExpectedValue(box.items, box.price),
+            ...summarisePayoffs(opens.map(e => e.item.value - e.price)),
+        };
+    });
+
+export const getGoalStats = (history: readonly GameEvent[], targets: readonly GoalTarget[]): OutcomeStats[] =>
+    targets.map(target => {
+        // Shots against a keeper or in skill practice have other odds, so they
+        // aren't compared here.
+        const shots = history.filter((e): e is Extract<GameEvent, { type: 'goal-shot' }> =>
+            e.type === 'goal-shot' && e.targetId === target.id && e.keeperDive === undefined && !e.skill
+        );
+        const goals = shots.filter(e => e.scored).length;
+        return {
+            id: target.id,
+            label: target.name,
+            trials: shots.length,
+            frequencies: [successRow('Goal', goals, shots.length, target.probability)],
+            expectedPayoff: expectedValue(successFailureOutcomes(target.probability, target.reward, target.penalty)),
+            ...summarisePayoffs(shots.map(e => (e.scored ? e.reward : e.penalty))),
+        };
+    });
+
+export const getBridgeStats = (history: readonly GameEvent[], table: readonly BridgeRow[]): OutcomeStats[] =>
+    table.map(row => {
+        // One-at-a-time crossings succeed with a different chance, and other
+        // tables give the same group size other odds, so only all-or-nothing
+        // crossings made with this row are compared with it.
+        const crossings = history.filter((e): e is Extract<GameEvent, { type: 'bridge-crossing' }> =>
+            e.type === 'bridge-crossing' && e.count === row.count && e.probability === row.probability && e.survivors === undefined
+        );
+        const successes = crossings.filter(e => e.success).length;
+        return {
+            id: String(row.count),
+            label: `${row.count} adventurer${row.count === 1 ? '' : 's'}`,
+            trials: crossings.length,
+            frequencies: [successRow('Safe crossing', successes, crossings.length, row.probability)],
+            expectedPayoff: expectedValue(successFailureOutcomes(row.probability, row.reward, row.penalty)),
+            ...summarisePayoffs(crossings.map(e => (e.success ? e.reward : e.penalty))),
+        };
+    });
@@ -0,0 +1,75 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Game, GameEvent } from '../types';
+import { CURRENT_SAVE_VERSION, createProfile, loadSave, writeSave } from './storage';
+
+// A fake localStorage that throws, like a browser does, once the stored text
+// would go over `quota` characters.
+const stubStorage = (items: Record<string, string>, quota = Infinity) => {
+    vi.stubGlobal('window', {
+        localStorage: {
+            getItem: (key: string) => items[key] ?? null,
+            setItem: (key: string, value: string) => {
+                const used = Object.entries(items).reduce((sum, [k, v]) => sum + (k === key ? 0 : v.length), 0);
+                if (used + value.length > quota) throw new Error('QuotaExceededError');
+                items[key] = value;
+            },
+        },
+    });
+};
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+describe('loadSave', () => {
+    it('turns v2 per-game history into ledger events', () => {
+        stubStorage({
+            'chance-champions:save': JSON.stringify({
+                version: 2,
+                activeProfileId: 'player-1',
+                profiles: [{
+                    id: 'player-1',
+                    name: 'Player 1',
+                    avatar: '🦊',
+                    points: 1150,
+                    badges: [],
+                    isMuted: false,
+                    history: {
+                        [Game.GoalOrMiss]: [{ timestamp: 30, pointsChange: -20 }, { timestamp: 10, pointsChange: 100 }],
+                        [Game.LuckyBox]: [{ timestamp: 20, pointsChange: 70 }],
+                    },
+                }],
+            }),
+        });
+
+        const save = loadSave();
+        expect(CURRENT_SAVE_VERSION).toBeGreaterThan(2);
+        expect(save.activeProfileId).toBe('player-1');
+        expect(save.profiles[0].points).toBe(1150);
+        expect(save.profiles[0].history.map(e => [e.type, e.game, e.timestamp, e.type === 'legacy-round' && e.pointsChange])).toEqual([
+            ['legacy-round', Game.GoalOrMiss, 10, 100],
+            ['legacy-round', Game.LuckyBox, 20, 70],
+            ['legacy-round', Game.GoalOrMiss, 30, -20],
+        ]);
+    });
+});
+
+describe('writeSave', () => {
+    it('reports when storage is full and keeps the last save that fitted', () => {
+        stubStorage({}, 20000);
+        const logError = vi.spyOn(console, 'error').mockImplementation(() => {});
+        const profile = createProfile('Test', '🙂');
+        const history: GameEvent[] = [];
+        let written = 0;
+        while (writeSave({ activeProfileId: profile.id, profiles: [{ ...profile, history: [...history] }] })) {
+            written = history.length;
+            history.push({ type: 'allowance-claimed', amount: 50, id: `event-${history.length}`, game: null, timestamp: history.length });
+            expect(history.length).toBeLessThan(1000);
+        }
+
+        expect(history.length).toBeGreaterThan(0);
+        expect(loadSave().profiles[0].history).toHaveLength(written);
+        expect(logError).toHaveBeenCalledOnce();
+    });
+});
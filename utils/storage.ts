@@ -0,0 +1,332 @@
+// Saves the player's progress to localStorage so it survives reloads.
+// Saves carry a schema version and are upgraded one step at a time through
+// MIGRATIONS. Anything unreadable falls back to a fresh save instead of
+// crashing the app, and the raw data is kept in a backup slot.
+
+import { BadgeType, BridgeSettings, ContentLibrary, CustomLuckyBox, Game, GameEvent, InventoryItem, PityRule, PlayerProfile, SaveState, SurvivalBridgeConfig } from '../types';
+import { STARTING_POINTS, PROFILE_AVATARS, DEFAULT_CONTENT_PACK, DEFAULT_PITY_RULE, DEFAULT_BRIDGE_SETTINGS } from '../constants';
+import { checkLuckyBoxes, checkSurvivalBridge, parseContentPack } from './contentPacks';
+import { validateLuckyBox, validateSurvivalBridge } from './contentValidation';
+
+const STORAGE_KEY = 'chance-champions:save';
+const BACKUP_KEY = 'chance-champions:save-backup';
+const CONTENT_KEY = 'chance-champions:content-packs';
+const CUSTOM_BOXES_KEY = 'chance-champions:custom-boxes';
+const PITY_RULE_KEY = 'chance-champions:pity-rule';
+const BRIDGE_SETTINGS_KEY = 'chance-champions:bridge-settings';
+
+export const CURRENT_SAVE_VERSION = 4;
+
+interface SaveFile extends SaveState {
+    version: number;
+}
+
+const convertLegacyHistory = (history: unknown): GameEvent[] => {
+    if (!isRecord(history)) return [];
+    const knownGames = Object.values(Game) as string[];
+    return Object.entries(history)
+        .filter(([game]) => knownGames.includes(game))
+        .flatMap(([game, entries]) => (Array.isArray(entries) ? entries : [])
+            .flatMap((entry: unknown) => isRecord(entry) && isFiniteNumber(entry.pointsChange) && isFiniteNumber(entry.timestamp)
+                ? [{ pointsChange: entry.pointsChange, timestamp: entry.timestamp }]
+                : [])
+            .map(({ pointsChange, timestamp }, i): GameEvent => ({
+                type: 'legacy-round',
+                pointsChange,
+                id: `legacy-${game}-${i}`,
+                game: game as Game,
+                timestamp,
+            })))
+        .sort((a, b) => a.timestamp - b.timestamp);
+};
+
+// Each entry upgrades a save from the version it is keyed by to the next one.
+// Add a step here whenever the shape of SaveFile changes.
+const MIGRATIONS: Record<number, (save: Record<string, unknown>) => Record<string, unknown>> = {
+    // v1 held a single anonymous profile; it becomes the first named player.
+    1: save => ({
+        version: 2,
+        activeProfileId: 'player-1',
+        profiles: [{ ...(isRecord(save.profile) ? save.profile : {}), id: 'player-1', name: 'Player 1', avatar: PROFILE_AVATARS[0] }],
+    }),
+    // v2 history only kept per-game point changes; each one becomes a
+    // legacy-round event in the v3 ledger, oldest first.
+    2: save => ({
+        ...save,
+        version: 3,
+        profiles: Array.isArray(save.profiles) ? save.profiles.map((p: unknown) => isRecord(p) ? { ...p, history: convertLegacyHistory(p.history) } : p) : save.profiles,
+    }),
+    // v4 keeps won items in an inventory. Boxes opened before then paid out
+    // straight away, which their events now have to say explicitly.
+    3: save => ({
+        ...save,
+        version: 4,
+        profiles: Array.isArray(save.profiles) ? save.profiles.map((p: unknown) => isRecord(p) ? {
+            ...p,
+            inventory: [],
+            history: Array.isArray(p.history)
+                ? p.history.map((e: unknown) => isRecord(e) && e.type === 'lucky-box-opened' ? { ...e, addedToInventory: false } : e)
+                : p.history,
+        } : p) : save.profiles,
+    }),
+};
+
+const getStorage = (): Storage | null => {
+    try {
+        return typeof window === 'undefined' ? null : window.localStorage;
+    } catch {
+        // Some browsers throw when storage is disabled (e.g. private mode).
+        return null;
+    }
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+    typeof value === 'number' && Number.isFinite(value);
+
+const createProfileId = () => `player-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createProfile = (name: string, avatar: string): PlayerProfile => ({
+    id: createProfileId(),
+    name,
+    avatar,
+    points: STARTING_POINTS,
+    badges: [],
+    isMuted: false,
+    history: [],
+    inventory: [],
+});
+
+export const createEmptySave = (): SaveState => ({
+    activeProfileId: null,
+    profiles: [],
+});
+
+const sanitizeHistory = (raw: unknown): GameEvent[] => {
+    if (!Array.isArray(raw)) return [];
+    const knownGames = Object.values(Game) as string[];
+    return raw.filter((event): event is GameEvent =>
+        isRecord(event)
+        && typeof event.id === 'string'
+        && typeof event.type === 'string'
+        && (event.game === null || (typeof event.game === 'string' && knownGames.includes(event.game)))
+        && Number.isFinite(event.timestamp)
+    );
+};
+
+const sanitizeInventory = (raw: unknown): InventoryItem[] => {
+    if (!Array.isArray(raw)) return [];
+    return raw.filter((entry): entry is InventoryItem =>
+        isRecord(entry)
+        && typeof entry.id === 'string'
+        && (Number.isFinite(entry.boxId) || typeof entry.boxId === 'string')
+        && typeof entry.boxName === 'string'
+        && isRecord(entry.item)
+        && typeof entry.item.name === 'string'
+        && Number.isFinite(entry.item.value)
+    );
+};
+
+const sanitizeProfile = (raw: unknown): PlayerProfile | null => {
+    if (!isRecord(raw) || !isFiniteNumber(raw.points)) return null;
+    if (typeof raw.id !== 'string' || typeof raw.name !== 'string' || typeof raw.avatar !== 'string') return null;
+    const knownBadges = Object.values(BadgeType) as string[];
+    return {
+        id: raw.id,
+        name: raw.name,
+        avatar: raw.avatar,
+        points: raw.points,
+        badges: Array.isArray(raw.badges) ? raw.badges.filter((badge: unknown) => knownBadges.includes(badge as string)) : [],
+        isMuted: raw.isMuted === true,
+        history: sanitizeHistory(raw.history),
+        inventory: sanitizeInventory(raw.inventory),
+    };
+};
+
+const sanitizeSave = (raw: Record<string, unknown>): SaveState | null => {
+    if (!Array.isArray(raw.profiles)) return null;
+    const profiles = raw.profiles
+        .map(sanitizeProfile)
+        .filter((profile): profile is PlayerProfile => profile !== null);
+    const activeProfileId = profiles.find(p => p.id === raw.activeProfileId)?.id ?? null;
+    return { activeProfileId, profiles };
+};
+
+const migrate = (save: Record<string, unknown>): Record<string, unknown> | null => {
+    let current = save;
+    let { version } = current;
+    while (typeof version === 'number' && version < CURRENT_SAVE_VERSION) {
+        const step = MIGRATIONS[version];
+        if (!step) return null;
+        current = step(current);
+        ({ version } = current);
+    }
+    // Saves written by a newer version of the app can't be trusted either.
+    return version === CURRENT_SAVE_VERSION ? current : null;
+};
+
+export const loadSave = (): SaveState => {
+    const storage = getStorage();
+    const raw = storage?.getItem(STORAGE_KEY);
+    if (!storage || !raw) return createEmptySave();
+
+    try {
+        const parsed = JSON.parse(raw);
+        if (!isRecord(parsed) || typeof parsed.version !== 'number') {
+            throw new Error('Save file has no version.');
+        }
+        const migrated = migrate(parsed);
+        if (!migrated) {
+            throw new Error(`Save file version ${parsed.version} is not supported.`);
+        }
+        const save = sanitizeSave(migrated);
+        if (!save) {
+            throw new Error('Save file does not contain a list of profiles.');
+        }
+        return save;
+    } catch (error) {
+        console.error('Could not restore saved progress, starting fresh.', error);
+        try {
+            storage.setItem(BACKUP_KEY, raw);
+        } catch {
+            // Nothing more we can do; the fresh save is still usable.
+        }
+        return createEmptySave();
+    }
+};
+
+// Returns false when the save could not be written (usually because the
+// device's storage is full), so the app can tell the player.
+export const writeSave = (state: SaveState): boolean => {
+    const storage = getStorage();
+    if (!storage) return true;
+    const save: SaveFile = { version: CURRENT_SAVE_VERSION, ...state };
+    try {
+        storage.setItem(STORAGE_KEY, JSON.stringify(save));
+        return true;
+    } catch (error) {
+        console.error('Could not save progress.', error);
+        return false;
+    }
+};
+
+// Content packs belong to the device rather than a player, so a teacher's
+// imported packs are available to every profile.
+export const loadContentLibrary = (): ContentLibrary => {
+    const fallback: ContentLibrary = { activePackId: DEFAULT_CONTENT_PACK.id, packs: [] };
+    const raw = getStorage()?.getItem(CONTENT_KEY);
+    if (!raw) return fallback;
+
+    try {
+        const parsed = JSON.parse(raw);
+        if (!isRecord(parsed) || !Array.isArray(parsed.packs)) return fallback;
+        // Each pack is re-checked so one bad pack can't take the others down.
+        const packs = parsed.packs.flatMap((pack: unknown) => {
+            try {
+                return [parseContentPack(JSON.stringify(pack))];
+            } catch (error) {
+                console.error('Dropping an unreadable content pack.', error);
+                return [];
+            }
+        });
+        const activePackId = packs.find(p => p.id === parsed.activePackId)?.id ?? DEFAULT_CONTENT_PACK.id;
+        return { activePackId, packs };
+    } catch (error) {
+        console.error('Could not restore content packs.', error);
+        return fallback;
+    }
+};
+
+export const writeContentLibrary = (library: ContentLibrary) => {
+    try {
+        getStorage()?.setItem(CONTENT_KEY, JSON.stringify(library));
+    } catch (error) {
+        console.error('Could not save content packs.', error);
+    }
+};
+
+// Student-designed boxes are shared by every player on the device, like
+// content packs. Boxes that no longer pass validation are dropped.
+export const loadCustomBoxes = (): CustomLuckyBox[] => {
+    const raw = getStorage()?.getItem(CUSTOM_BOXES_KEY);
+    if (!raw) return [];
+
+    try {
+        const parsed = JSON.parse(raw);
+        if (!Array.isArray(parsed)) return [];
+        // Boxes saved before ids were namespaced had bare numeric ids
+        const boxes = parsed.map((box: unknown) => isRecord(box) && typeof box.id === 'number' ? { ...box, id: `custom-${box.id}` } : box);
+        return boxes.filter((box: unknown): box is CustomLuckyBox => {
+            try {
+                checkLuckyBoxes([box]);
+            } catch (error) {
+                console.error('Dropping an unreadable custom box.', error);
+                return false;
+            }
+            return typeof (box as CustomLuckyBox).designedBy === 'string' && typeof (box as CustomLuckyBox).id === 'string'
+                && validateLuckyBox(box as CustomLuckyBox).length === 0;
+        });
+    } catch (error) {
+        console.error('Could not restore custom boxes.', error);
+        return [];
+    }
+};
+
+export const writeCustomBoxes = (boxes: CustomLuckyBox[]) => {
+    try {
+        getStorage()?.setItem(CUSTOM_BOXES_KEY, JSON.stringify(boxes));
+    } catch (error) {
+        console.error('Could not save custom boxes.', error);
+    }
+};
+
+// The pity rule is a classroom setting, so it is stored per device.
+export const loadPityRule = (): PityRule => {
+    try {
+        const parsed = JSON.parse(getStorage()?.getItem(PITY_RULE_KEY) ?? 'null');
+        if (!isRecord(parsed) || !isFiniteNumber(parsed.threshold) || !Number.isInteger(parsed.threshold) || parsed.threshold < 1) return DEFAULT_PITY_RULE;
+        return { enabled: parsed.enabled === true, threshold: parsed.threshold };
+    } catch {
+        return DEFAULT_PITY_RULE;
+    }
+};
+
+export const writePityRule = (rule: PityRule) => {
+    try {
+        getStorage()?.setItem(PITY_RULE_KEY, JSON.stringify(rule));
+    } catch (error) {
+        console.error('Could not save the pity rule.', error);
+    }
+};
+
+// The bridge table is a classroom setting too. A custom table that no longer
+// passes validation is dropped, and the game falls back to the pack's table.
+export const loadBridgeSettings = (): BridgeSettings => {
+    try {
+        const parsed = JSON.parse(getStorage()?.getItem(BRIDGE_SETTINGS_KEY) ?? 'null');
+        if (!isRecord(parsed) || typeof parsed.tableId !== 'string') return DEFAULT_BRIDGE_SETTINGS;
+        let custom: SurvivalBridgeConfig | null = null;
+        if (parsed.custom) {
+            try {
+                checkSurvivalBridge(parsed.custom);
+                if (validateSurvivalBridge(parsed.custom).length === 0) custom = parsed.custom;
+            } catch (error) {
+                console.error('Dropping an unreadable custom bridge table.', error);
+            }
+        }
+        const tableId = parsed.tableId === 'custom' && !custom ? DEFAULT_BRIDGE_SETTINGS.tableId : parsed.tableId;
+        return { tableId, custom };
+    } catch {
+        return DEFAULT_BRIDGE_SETTINGS;
+    }
+};
+
+export const writeBridgeSettings = (settings: BridgeSettings) => {
+    try {
+        getStorage()?.setItem(BRIDGE_SETTINGS_KEY, JSON.stringify(settings));
+    } catch (error) {
+        console.error('Could not save the bridge settings.', error);
+    }
+};